@@ -0,0 +1,115 @@
+import { promises as fs } from 'node:fs';
+import { load } from 'cheerio';
+
+/**
+ * Cache of fragment targets per HTML file, shared across a single checkLinks run
+ * so each target page is parsed at most once
+ */
+export type AnchorCache = Map<string, Promise<Set<string>>>;
+
+/**
+ * Fragments a browser resolves without a matching element
+ */
+const IMPLICIT_FRAGMENTS = ['', 'top'];
+
+/**
+ * Extract every fragment target (element ids and named anchors) from HTML content
+ */
+export function extractAnchorIds(html: string): Set<string> {
+  const $ = load(html);
+  const ids = new Set<string>();
+
+  $('[id]').each((_, element) => {
+    const id = $(element).attr('id');
+    if (id) ids.add(id);
+  });
+
+  $('a[name]').each((_, element) => {
+    const name = $(element).attr('name');
+    if (name) ids.add(name);
+  });
+
+  return ids;
+}
+
+/**
+ * Read an HTML file and extract its fragment targets
+ */
+export async function readAnchorIds(filePath: string): Promise<Set<string>> {
+  return extractAnchorIds(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Load the fragment targets of an HTML file, reusing the cached result if the
+ * file has already been parsed. `read` parses files that aren't cached yet.
+ */
+export function loadAnchorIds(
+  filePath: string,
+  cache: AnchorCache,
+  read: (filePath: string) => Promise<Set<string>> = readAnchorIds
+): Promise<Set<string>> {
+  let ids = cache.get(filePath);
+
+  if (!ids) {
+    ids = read(filePath);
+    cache.set(filePath, ids);
+  }
+
+  return ids;
+}
+
+/**
+ * Check whether a fragment resolves in a page with the given ids.
+ * The fragment is compared both as written and percent-decoded.
+ */
+export function hasAnchor(fragment: string, ids: Set<string>): boolean {
+  if (IMPLICIT_FRAGMENTS.includes(fragment.toLowerCase())) {
+    return true;
+  }
+
+  if (ids.has(fragment)) {
+    return true;
+  }
+
+  try {
+    return ids.has(decodeURIComponent(fragment));
+  } catch {
+    // Malformed percent-encoding, only the literal fragment can match
+    return false;
+  }
+}
+
+/**
+ * Find the ids closest to a missing fragment, best match first
+ */
+export function findClosestAnchors(fragment: string, ids: Set<string>, limit: number = 3): string[] {
+  const target = fragment.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(target.length / 2));
+
+  return [...ids]
+    .map(id => ({ id, distance: levenshtein(target, id.toLowerCase()) }))
+    .filter(candidate => candidate.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id))
+    .slice(0, limit)
+    .map(candidate => candidate.id);
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { toSourcePath } from './reporters.js';
+import type { BaselineEntry, BrokenLink, LinkCheckResult } from './types';
+
+/**
+ * Shape of the baseline file on disk
+ */
+interface BaselineFile {
+  version: 1;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Build the baseline entry for a broken link
+ */
+function toEntry(link: BrokenLink, buildDir: string): BaselineEntry {
+  return {
+    sourceFile: toSourcePath(link.sourceFile, buildDir),
+    href: link.href,
+    reason: link.reason
+  };
+}
+
+/**
+ * Key identifying a baseline entry
+ */
+function entryKey(entry: BaselineEntry): string {
+  return JSON.stringify([entry.sourceFile, entry.href, entry.reason]);
+}
+
+/**
+ * Load the entries of a baseline file, or null when the file does not exist yet
+ */
+export async function loadBaseline(baselineFile: string): Promise<BaselineEntry[] | null> {
+  try {
+    const content = await fs.readFile(resolve(baselineFile), 'utf-8');
+    return (JSON.parse(content) as BaselineFile).entries ?? [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw new Error(`Could not read baseline file ${baselineFile}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Write the given broken links as the new baseline, sorted so the file diffs cleanly
+ */
+export async function writeBaseline(baselineFile: string, brokenLinks: BrokenLink[], buildDir: string): Promise<BaselineEntry[]> {
+  const entries = new Map<string, BaselineEntry>();
+
+  for (const link of brokenLinks) {
+    const entry = toEntry(link, buildDir);
+    entries.set(entryKey(entry), entry);
+  }
+
+  const sorted = [...entries.values()].sort((a, b) =>
+    a.sourceFile.localeCompare(b.sourceFile) || a.href.localeCompare(b.href) || a.reason.localeCompare(b.reason)
+  );
+
+  const outputPath = resolve(baselineFile);
+  const file: BaselineFile = { version: 1, entries: sorted };
+  await fs.mkdir(dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+
+  return sorted;
+}
+
+/**
+ * Split a result's broken links into new ones and ones recorded in the baseline,
+ * and collect the baseline entries that no longer match any broken link
+ */
+export function applyBaseline(result: LinkCheckResult, entries: BaselineEntry[], buildDir: string): LinkCheckResult {
+  const known = new Map(entries.map(entry => [entryKey(entry), entry]));
+  const seen = new Set<string>();
+  const brokenLinks: BrokenLink[] = [];
+  const baselinedLinks: BrokenLink[] = [];
+
+  for (const link of result.brokenLinks) {
+    const key = entryKey(toEntry(link, buildDir));
+
+    if (known.has(key)) {
+      baselinedLinks.push(link);
+      seen.add(key);
+    } else {
+      brokenLinks.push(link);
+    }
+  }
+
+  return {
+    ...result,
+    brokenLinks,
+    baselinedLinks,
+    fixedBaselineEntries: [...known.entries()].filter(([key]) => !seen.has(key)).map(([, entry]) => entry)
+  };
+}
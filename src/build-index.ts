@@ -0,0 +1,83 @@
+import { promises as fs, existsSync, type Dirent } from 'node:fs';
+import { extname, join, resolve } from 'node:path';
+
+/**
+ * Every file and directory in the build, from a single walk of the build directory.
+ * Paths are absolute, with the platform's separators.
+ */
+export interface BuildIndex {
+  files: Set<string>;
+  /**
+   * Directory listings by directory path, in the order `readdir` returned them
+   */
+  directories: Map<string, Dirent[]>;
+}
+
+/**
+ * Walk the build directory once, recording every file and directory listing
+ */
+export async function indexBuildDirectory(buildDir: string): Promise<BuildIndex> {
+  const index: BuildIndex = { files: new Set(), directories: new Map() };
+
+  async function walk(currentDir: string): Promise<void> {
+    const entries = await fs.readdir(currentDir, { withFileTypes: true });
+    index.directories.set(currentDir, entries);
+
+    for (const entry of entries) {
+      const fullPath = join(currentDir, entry.name);
+
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile()) {
+        index.files.add(fullPath);
+      }
+    }
+  }
+
+  await walk(resolve(buildDir));
+  return index;
+}
+
+/**
+ * Find the file a build path is served from. Extensionless paths also try the
+ * `.html` file, and directories resolve to their index.html when there is one.
+ * Paths missing from the index, such as symlinks or paths that only match on a
+ * case-insensitive file system, are looked up on disk.
+ */
+export async function resolveBuildFile(filePath: string, index: BuildIndex): Promise<string | null> {
+  const path = resolve(filePath);
+
+  if (index.directories.has(path)) {
+    const indexFile = join(path, 'index.html');
+    return index.files.has(indexFile) ? indexFile : path;
+  }
+
+  if (index.files.has(path)) {
+    return path;
+  }
+
+  if (!extname(path) && index.files.has(path + '.html')) {
+    return path + '.html';
+  }
+
+  return resolveBuildFileOnDisk(filePath);
+}
+
+/**
+ * Find the file a build path is served from by asking the file system
+ */
+async function resolveBuildFileOnDisk(filePath: string): Promise<string | null> {
+  if (existsSync(filePath)) {
+    const stats = await fs.stat(filePath);
+    if (stats.isDirectory() && existsSync(join(filePath, 'index.html'))) {
+      return join(filePath, 'index.html');
+    }
+    return filePath;
+  }
+
+  if (!extname(filePath) && existsSync(filePath + '.html')) {
+    return filePath + '.html';
+  }
+
+  return null;
+}
@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+import { promises as fs } from 'node:fs';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { checkLinks, countIssueErrors } from './link-checker.js';
+import { checkSourceLinks } from './source-check.js';
+import { formatReport, writeReports } from './reporters.js';
+import { writeLinkGraphs } from './link-graph.js';
+import { printBrokenLinks, printBaselineSummary, printOrphanPages, printSitemapIssues, printI18nIssues } from './console-output.js';
+import type { AstroProjectConfig, LinkValidatorOptions, ReportFormat } from './types';
+
+/**
+ * Exit codes: broken links found, and bad usage or an unexpected failure
+ */
+const EXIT_BROKEN_LINKS = 1;
+const EXIT_ERROR = 2;
+
+const FORMATS = ['text', 'json', 'junit', 'sarif', 'markdown'];
+
+const USAGE = `Usage: astro-link-validator check <dir> [options]
+       astro-link-validator check [dir] --crawl <url> [options]
+       astro-link-validator check-sources [root] [options]
+
+Validate the links in a built site directory, crawl a running server, or check
+the Markdown and MDX sources of the Astro project at [root] before building.
+
+Options:
+  --external               Check external links
+  --exclude <pattern>      Link pattern to skip (repeatable)
+  --include <pattern>      File pattern to check (repeatable, default: **/*.html and **/*.css)
+  --redirects <file>       Redirects file, relative to <dir> or absolute (repeatable)
+  --timeout <ms>           Timeout for external requests (default: 5000)
+  --base <path>            Base path the site is deployed under
+  --site <url>             URL the site is deployed at, for checking sitemap hosts
+  --trailing-slash <mode>  Enforce 'always' or 'never' trailing slashes on page links
+  --format <format>        Output format: text, json, junit, sarif, markdown (default: text)
+  --output <file>          Write the formatted output to a file instead of stdout
+  --config <file>          Read options from a JSON or JavaScript config file
+  --baseline <file>        Only fail on broken links missing from this baseline file
+  --update-baseline        Write the current broken links to the baseline file
+  --orphans                Report pages that no other page links to
+  --graph <file>           Write the page link graph (.dot or .gv for Graphviz, otherwise JSON)
+  --sitemap                Cross-check the sitemap against the built pages
+  --i18n <locales>         Check hreflang alternates and cross-locale links for these
+                           comma-separated locales, the first being the default
+  --redirected             Report internal links that go through redirects
+  --case-sensitive         Compare path case against the build, as Linux hosts do
+  --workers <count>        Worker threads for parsing pages (0 parses on the main thread)
+  --incremental            Re-check only what changed since the last run
+  --crawl <url>            Check links with requests to the server at <url>, starting from the pages in [dir]
+  --seed <path>            Path under the --crawl URL to start from (repeatable, default: pages in [dir], or /)
+  --manifest <file>        Manifest file for incremental runs (implies --incremental)
+  --no-fail                Exit with 0 even when broken links are found
+  --verbose                Show detailed progress
+  -h, --help               Show this help
+  -v, --version            Show the version`;
+
+/**
+ * Load validator options from a JSON file or a JavaScript module's default export
+ */
+async function loadConfigFile(configPath: string): Promise<LinkValidatorOptions> {
+  const fullPath = resolve(configPath);
+
+  if (fullPath.endsWith('.json')) {
+    return JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+  }
+
+  const module = await import(pathToFileURL(fullPath).href);
+  return module.default ?? module;
+}
+
+/**
+ * Read the package version for --version
+ */
+async function readVersion(): Promise<string> {
+  const packageJson = await fs.readFile(new URL('../package.json', import.meta.url), 'utf-8');
+  return JSON.parse(packageJson).version;
+}
+
+/**
+ * Run the CLI with the given arguments and return the process exit code
+ */
+async function run(argv: string[]): Promise<number> {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        external: { type: 'boolean' },
+        exclude: { type: 'string', multiple: true },
+        include: { type: 'string', multiple: true },
+        redirects: { type: 'string', multiple: true },
+        timeout: { type: 'string' },
+        base: { type: 'string' },
+        site: { type: 'string' },
+        'trailing-slash': { type: 'string' },
+        format: { type: 'string', default: 'text' },
+        output: { type: 'string' },
+        config: { type: 'string' },
+        baseline: { type: 'string' },
+        'update-baseline': { type: 'boolean' },
+        orphans: { type: 'boolean' },
+        graph: { type: 'string' },
+        sitemap: { type: 'boolean' },
+        i18n: { type: 'string' },
+        redirected: { type: 'boolean' },
+        'case-sensitive': { type: 'boolean' },
+        workers: { type: 'string' },
+        incremental: { type: 'boolean' },
+        crawl: { type: 'string' },
+        seed: { type: 'string', multiple: true },
+        manifest: { type: 'string' },
+        'no-fail': { type: 'boolean' },
+        verbose: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' }
+      }
+    });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (values.version) {
+    console.log(await readVersion());
+    return 0;
+  }
+
+  const [command, dir] = positionals;
+
+  const checkSources = command === 'check-sources';
+  if ((command !== 'check' && !checkSources) || (command === 'check' && !dir && !values.crawl)) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  const format = values.format ?? 'text';
+  if (!FORMATS.includes(format)) {
+    console.error(`Unknown format: ${format}. Expected one of ${FORMATS.join(', ')}`);
+    return EXIT_ERROR;
+  }
+
+  if (format === 'text' && values.output) {
+    console.error('--output needs a --format other than text');
+    return EXIT_ERROR;
+  }
+
+  const trailingSlash = values['trailing-slash'];
+  if (trailingSlash !== undefined && !['always', 'never', 'ignore'].includes(trailingSlash)) {
+    console.error(`Unknown trailing slash mode: ${trailingSlash}. Expected always, never or ignore`);
+    return EXIT_ERROR;
+  }
+
+  for (const flag of ['timeout', 'workers'] as const) {
+    const value = values[flag];
+    if (value !== undefined && !/^\d+$/.test(value)) {
+      console.error(`Invalid --${flag} value: ${value}. Expected a whole number of 0 or more`);
+      return EXIT_ERROR;
+    }
+  }
+
+  try {
+    // Flags take precedence over the config file
+    const options: LinkValidatorOptions = values.config ? await loadConfigFile(values.config) : {};
+
+    if (values.external) options.checkExternal = true;
+    if (values.exclude) options.exclude = values.exclude;
+    if (values.include) options.include = values.include;
+    if (values.redirects) options.redirectsFile = values.redirects;
+    if (values.timeout) options.externalTimeout = Number(values.timeout);
+    if (values['no-fail']) options.failOnBrokenLinks = false;
+    if (values.verbose) options.verbose = true;
+    // Progress lines would end up in the middle of a report written to stdout
+    if (values.verbose && format !== 'text') options.logger = message => console.error(message);
+    if (values.baseline) options.baselineFile = values.baseline;
+    if (values['update-baseline']) options.updateBaseline = true;
+    if (values.orphans) options.orphanPages = options.orphanPages || true;
+    if (values.sitemap) options.checkSitemap = true;
+    if (values.i18n) options.checkI18n = true;
+    if (values.redirected) options.redirectedLinks = options.redirectedLinks || true;
+    if (values['case-sensitive']) options.caseSensitivePaths = true;
+    if (values.workers) options.parseWorkers = Number(values.workers);
+    if (values.incremental) options.incremental = options.incremental || true;
+    if (values.manifest) options.incremental = { path: values.manifest };
+    if (values.crawl) options.crawl = { ...options.crawl, url: values.crawl };
+    if (options.crawl && values.seed) options.crawl.seeds = values.seed;
+    if (options.crawl && !dir) options.crawl.seeds ??= ['/'];
+    if (values.graph) options.linkGraph = { format: /\.(dot|gv)$/i.test(values.graph) ? 'dot' : 'json', outputFile: values.graph };
+
+    const projectConfig: AstroProjectConfig = {};
+    if (values.base) projectConfig.base = values.base;
+    if (values.site) projectConfig.site = values.site;
+    if (trailingSlash) projectConfig.trailingSlash = trailingSlash as AstroProjectConfig['trailingSlash'];
+    if (values.i18n) {
+      const locales = values.i18n.split(',').map(locale => locale.trim()).filter(Boolean);
+      projectConfig.i18n = { defaultLocale: locales[0], locales };
+    }
+
+    const buildDir = resolve(dir ?? '.');
+    const result = checkSources
+      ? await checkSourceLinks(buildDir, options, projectConfig)
+      : await checkLinks(buildDir, options, projectConfig);
+
+    if (options.report) {
+      await writeReports(result, buildDir, options.report);
+    }
+
+    if (options.linkGraph && result.linkGraph) {
+      await writeLinkGraphs(result.linkGraph, options.linkGraph);
+    }
+
+    const issueErrors = countIssueErrors(result);
+
+    if (format === 'text') {
+      console.log(`✅ Checked ${result.totalLinks} links across ${result.checkedFiles.length} files`);
+      if (result.skippedFiles.length > 0) {
+        console.warn(`⚠️  Skipped ${result.skippedFiles.length} files`);
+      }
+      if (options.baselineFile) {
+        printBaselineSummary(result, options.baselineFile, options.updateBaseline === true, console.log);
+      }
+      if (result.orphanPages) {
+        printOrphanPages(result.orphanPages, console.warn);
+      }
+      if (result.sitemapIssues) {
+        printSitemapIssues(result.sitemapIssues, console.warn);
+      }
+      if (result.i18nIssues) {
+        printI18nIssues(result.i18nIssues, console.warn);
+      }
+
+      if (result.warnings && result.warnings.length > 0) {
+        console.warn(`⚠️  Found ${result.warnings.length} warnings:`);
+        printBrokenLinks(result.warnings, buildDir);
+      }
+
+      if (issueErrors > 0) {
+        console.log(`❌ Found ${issueErrors} orphan page, sitemap or i18n issues marked as errors`);
+      }
+
+      if (result.brokenLinks.length > 0) {
+        console.log(`❌ Found ${result.brokenLinks.length} broken links:`);
+        printBrokenLinks(result.brokenLinks, buildDir);
+      } else {
+        console.log('🎉 No broken links found!');
+      }
+    } else if (values.output) {
+      await writeReports(result, buildDir, { format: format as ReportFormat, outputFile: values.output });
+    } else {
+      process.stdout.write(formatReport(result, format as ReportFormat, buildDir));
+    }
+
+    const failed = result.brokenLinks.length > 0 || issueErrors > 0;
+    return failed && options.failOnBrokenLinks !== false ? EXIT_BROKEN_LINKS : 0;
+  } catch (error) {
+    console.error(`💥 Link validation failed: ${error instanceof Error ? error.message : error}`);
+    return EXIT_ERROR;
+  }
+}
+
+run(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}).catch(error => {
+  console.error(`💥 ${error instanceof Error ? error.message : error}`);
+  process.exitCode = EXIT_ERROR;
+});
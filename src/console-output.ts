@@ -0,0 +1,166 @@
+import pc from 'picocolors';
+import { toSourcePath } from './reporters.js';
+import type { BrokenLink, I18nIssue, LinkCheckResult, OrphanPage, SitemapIssue } from './types';
+
+/**
+ * Print broken links to the console, grouped by the file they were found in
+ */
+export function printBrokenLinks(brokenLinks: BrokenLink[], buildDir: string): void {
+  // Group broken links by file
+  const brokenLinksByFile = brokenLinks.reduce((acc, link) => {
+    const file = toSourcePath(link.sourceFile, buildDir);
+    if (!acc[file]) acc[file] = [];
+    acc[file].push(link);
+    return acc;
+  }, {} as Record<string, BrokenLink[]>);
+  
+  // Display broken links grouped by file
+  for (const [file, links] of Object.entries(brokenLinksByFile)) {
+    const origin = links[0].originFile ? pc.dim(` (${links[0].originFile})`) : '';
+    console.log(`\n${pc.red('📄 ' + file)}${origin}:`);
+    
+    links.forEach(link => {
+      const typeIcon = getTypeIcon(link.type);
+      const reasonColor = getReasonColor(link.reason);
+      const details = [link.line !== undefined ? `line ${link.line}` : '', link.source ? `in ${link.source}` : ''].filter(Boolean).join(' ');
+      const position = details ? pc.dim(` (${details})`) : '';
+      
+      console.log(`  ${typeIcon} ${pc.cyan(link.href)}${position}`);
+      console.log(`    ${reasonColor(link.error)}`);
+      if (link.text && link.text !== link.href) {
+        console.log(`    Text: "${pc.dim(link.text)}"`);
+      }
+    });
+  }
+}
+
+/**
+ * Describe how a result was compared against the baseline file. Lines are passed
+ * to `log` so the integration can route them through Astro's logger.
+ */
+export function printBaselineSummary(
+  result: LinkCheckResult,
+  baselineFile: string,
+  updated: boolean,
+  log: (message: string) => void
+): void {
+  const baselined = result.baselinedLinks ?? [];
+  const fixed = result.fixedBaselineEntries ?? [];
+
+  if (updated) {
+    log(`📌 Recorded ${baselined.length} broken links in baseline ${baselineFile}`);
+    return;
+  }
+
+  if (baselined.length > 0) {
+    log(`📌 Ignored ${baselined.length} known broken links recorded in baseline ${baselineFile}`);
+  }
+
+  if (fixed.length > 0) {
+    log(`🧹 ${fixed.length} baseline entries are fixed and can be removed from ${baselineFile}:`);
+    fixed.forEach(entry => log(`   - ${entry.sourceFile}: ${entry.href} (${entry.reason})`));
+  }
+}
+
+/**
+ * Mark the issues rules made errors, which fail the build
+ */
+function severityMark(issue: { severity?: string }): string {
+  return issue.severity === 'error' ? ' [error]' : '';
+}
+
+/**
+ * List the pages no other page links to. Lines are passed to `log` so the
+ * integration can route them through Astro's logger.
+ */
+export function printOrphanPages(orphanPages: OrphanPage[], log: (message: string) => void): void {
+  if (orphanPages.length === 0) {
+    return;
+  }
+
+  log(`🏝️  Found ${orphanPages.length} orphan pages that no other page links to:`);
+  orphanPages.forEach(orphan => log(`   - ${orphan.page}${severityMark(orphan)}`));
+}
+
+/**
+ * List disagreements between the sitemap and the build, grouped by reason
+ */
+export function printSitemapIssues(issues: SitemapIssue[], log: (message: string) => void): void {
+  if (issues.length === 0) {
+    return;
+  }
+
+  const headings: Record<SitemapIssue['reason'], string> = {
+    'not-found': 'Sitemap URLs that do not resolve to a built page or redirect',
+    'wrong-host': 'Sitemap URLs on another host',
+    'missing-from-sitemap': 'Linked pages missing from the sitemap'
+  };
+
+  log(`🗺️  Found ${issues.length} sitemap issues:`);
+  for (const reason of Object.keys(headings) as SitemapIssue['reason'][]) {
+    const matching = issues.filter(issue => issue.reason === reason);
+    if (matching.length > 0) {
+      log(`  ${headings[reason]}:`);
+      matching.forEach(issue => log(`   - ${issue.page ?? issue.url}${issue.sitemapFile ? ` (${issue.sitemapFile})` : ''}${severityMark(issue)}`));
+    }
+  }
+}
+
+/**
+ * List hreflang and cross-locale link problems, grouped by reason
+ */
+export function printI18nIssues(issues: I18nIssue[], log: (message: string) => void): void {
+  if (issues.length === 0) {
+    return;
+  }
+
+  const headings: Record<I18nIssue['reason'], string> = {
+    'missing-return-link': 'Hreflang alternates that do not link back',
+    'missing-x-default': 'Pages whose hreflang alternates have no x-default',
+    'missing-self-reference': 'Pages missing from their own hreflang alternates',
+    'cross-locale-link': 'Links into another locale that has an equivalent page in this one'
+  };
+
+  log(`🌍 Found ${issues.length} i18n issues:`);
+  for (const reason of Object.keys(headings) as I18nIssue['reason'][]) {
+    const matching = issues.filter(issue => issue.reason === reason);
+    if (matching.length > 0) {
+      log(`  ${headings[reason]}:`);
+      matching.forEach(issue => {
+        const location = issue.line ? ` (line ${issue.line})` : '';
+        log(`   - ${issue.page}${issue.href ? `: ${issue.href}${location}` : ''}${issue.suggestion ? ` → ${issue.suggestion}` : ''}${severityMark(issue)}`);
+      });
+    }
+  }
+}
+
+/**
+ * Get icon for link type
+ */
+function getTypeIcon(type: string): string {
+  switch (type) {
+    case 'internal': return '🔗';
+    case 'external': return '🌐';
+    case 'asset': return '📦';
+    case 'anchor': return '⚓';
+    default: return '❓';
+  }
+}
+
+/**
+ * Get color function for reason
+ */
+function getReasonColor(reason: string) {
+  switch (reason) {
+    case 'not-found': return pc.red;
+    case 'network-error': return pc.magenta;
+    case 'timeout': return pc.yellow;
+    case 'invalid': return pc.gray;
+    case 'missing-anchor': return pc.yellow;
+    case 'trailing-slash': return pc.yellow;
+    case 'absolute-self-link': return pc.yellow;
+    case 'redirected': return pc.yellow;
+    case 'case-mismatch': return pc.red;
+    default: return pc.red;
+  }
+}
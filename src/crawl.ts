@@ -0,0 +1,360 @@
+import { extractLinksFromHtml, matchesExcludePattern, describeRedirectedLink, toSelfPath, MAX_REDIRECT_DEPTH } from './link-checker.js';
+import { extractAnchorIds, hasAnchor, findClosestAnchors } from './anchors.js';
+import type { ExternalScheduler } from './external-links.js';
+import type { BrokenLink, Link, RedirectHop, RedirectedLinkOptions } from './types';
+
+/**
+ * Default cap on the number of pages one crawl visits
+ */
+export const DEFAULT_MAX_PAGES = 10_000;
+
+/**
+ * Statuses a server answers a missing page with
+ */
+const NOT_FOUND_STATUSES = [404, 410];
+
+/**
+ * Settings for crawling a running server
+ */
+export interface CrawlSettings {
+  /**
+   * URL of the server, including the site base; only pages under it are crawled
+   */
+  url: string;
+  /**
+   * Paths under `url` to start from
+   */
+  seeds: string[];
+  maxPages: number;
+  concurrency: number;
+  timeout: number;
+  acceptedStatusCodes: number[];
+  exclude: string[];
+  checkExternal: boolean;
+  siteOrigins: string[];
+  redirectedLinks?: boolean | RedirectedLinkOptions;
+}
+
+/**
+ * A page the crawl fetched and checked
+ */
+export interface CrawledPage {
+  url: string;
+  links: Link[];
+  brokenLinks: BrokenLink[];
+  warnings: BrokenLink[];
+}
+
+/**
+ * Everything one crawl found
+ */
+export interface CrawlResult {
+  pages: CrawledPage[];
+  /**
+   * Pages the crawl started from that could not be checked, and why
+   */
+  skipped: { url: string; error: string }[];
+  /**
+   * Whether the crawl stopped at `maxPages` with pages left to visit
+   */
+  truncated: boolean;
+}
+
+/**
+ * What requesting a URL on the server gave, after following its redirects
+ */
+interface CrawlResponse {
+  /**
+   * URL the redirects ended at
+   */
+  url: string;
+  hops: RedirectHop[];
+  /**
+   * Whether the URL answered with an HTML page
+   */
+  isHtml: boolean;
+  /**
+   * Why the URL doesn't count as a working link, or null when it does
+   */
+  problem: Pick<BrokenLink, 'error' | 'reason'> | null;
+}
+
+/**
+ * Limit how many tasks run at once. A finishing task hands its slot straight
+ * to the next waiting one.
+ */
+function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (task) => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * Crawl a running server from the seed pages, checking every link on each page
+ * with real requests. Same-origin links are requested (following redirects the
+ * way a browser would, and counting statuses as production would) and the HTML
+ * pages they lead to under `url` are crawled in turn. Other origins go through
+ * the external scheduler when `checkExternal` is set.
+ */
+export async function crawlSite(settings: CrawlSettings, externalScheduler: ExternalScheduler): Promise<CrawlResult> {
+  const root = new URL(settings.url);
+  if (!root.pathname.endsWith('/')) {
+    root.pathname += '/';
+  }
+
+  const limit = createLimiter(settings.concurrency);
+  const responses = new Map<string, Promise<CrawlResponse>>();
+  const anchorIds = new Map<string, Set<string>>();
+  // HTML of pages that may still be crawled. The rest only keep their anchor ids.
+  const pageHtml = new Map<string, string>();
+  const isAccepted = (status: number) => (status >= 200 && status < 300) || settings.acceptedStatusCodes.includes(status);
+  const isUnderRoot = (url: string) => url.startsWith(root.href) || url === root.href.slice(0, -1);
+  const pathOf = (url: URL) => url.origin === root.origin ? url.pathname + url.search : url.href;
+
+  // Request a URL, following same-origin redirects one hop at a time
+  async function request(url: string): Promise<CrawlResponse> {
+    const hops: RedirectHop[] = [];
+    let current = new URL(url);
+
+    for (let followed = 0; ; followed++) {
+      let response: Response;
+      try {
+        response = await limit(() => fetch(current, {
+          redirect: 'manual',
+          signal: AbortSignal.timeout(settings.timeout),
+          headers: { accept: 'text/html,*/*' }
+        }));
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        return {
+          url: current.href,
+          hops,
+          isHtml: false,
+          problem: timedOut
+            ? { error: `Request timeout after ${settings.timeout}ms`, reason: 'timeout' }
+            : { error: error instanceof Error ? error.message : String(error), reason: 'network-error' }
+        };
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel().catch(() => {});
+        const target = new URL(location, current);
+        hops.push({ from: pathOf(current), to: pathOf(target), status: response.status });
+
+        // The redirect leaves the site, which is as far as this server can answer for
+        if (target.origin !== root.origin) {
+          return { url: target.href, hops, isHtml: false, problem: null };
+        }
+
+        if (followed >= MAX_REDIRECT_DEPTH) {
+          return {
+            url: target.href,
+            hops,
+            isHtml: false,
+            problem: { error: `Redirect loop: more than ${MAX_REDIRECT_DEPTH} redirects followed from ${pathOf(new URL(url))}`, reason: 'invalid' }
+          };
+        }
+
+        current = target;
+        continue;
+      }
+
+      const isHtml = response.status === 200 && (response.headers.get('content-type') ?? '').includes('text/html');
+      if (isHtml) {
+        const html = await response.text();
+        anchorIds.set(current.href, extractAnchorIds(html));
+        pageHtml.set(current.href, html);
+      } else {
+        await response.body?.cancel().catch(() => {});
+      }
+
+      return {
+        url: current.href,
+        hops,
+        isHtml,
+        problem: isAccepted(response.status)
+          ? null
+          : {
+            error: `HTTP ${response.status}: ${response.statusText}`,
+            reason: NOT_FOUND_STATUSES.includes(response.status) ? 'not-found' : 'network-error'
+          }
+      };
+    }
+  }
+
+  // Each URL is requested once per crawl
+  const requestOnce = (url: string): Promise<CrawlResponse> => {
+    let response = responses.get(url);
+    if (!response) {
+      response = request(url);
+      responses.set(url, response);
+    }
+    return response;
+  };
+
+  // Check one link on a page. Returns the problem, the redirects it went through,
+  // and the page it leads to when that page should be crawled too.
+  async function checkLink(link: Link, pageUrl: string): Promise<{ broken: BrokenLink | null; hops: RedirectHop[]; page: string | null }> {
+    const unchecked = { broken: null, hops: [], page: null };
+
+    if (settings.exclude.some(pattern => matchesExcludePattern(link.href, pattern))) {
+      return unchecked;
+    }
+
+    // Absolute links to the production site are checked against this server
+    const selfPath = link.type === 'external' ? toSelfPath(link.href, settings.siteOrigins) : null;
+
+    let target: URL;
+    try {
+      target = selfPath !== null ? new URL(selfPath.replace(/^\/+/, ''), root) : new URL(link.href, pageUrl);
+    } catch {
+      return { ...unchecked, broken: { ...link, error: 'Invalid URL', reason: 'invalid' } };
+    }
+
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return unchecked;
+    }
+
+    if (target.origin !== root.origin) {
+      return settings.checkExternal ? { ...unchecked, broken: await externalScheduler.check(link) } : unchecked;
+    }
+
+    let fragment: string | null = null;
+    if (target.hash) {
+      try {
+        fragment = decodeURIComponent(target.hash.slice(1));
+      } catch {
+        // Malformed percent-encoding, keep the fragment as written
+        fragment = target.hash.slice(1);
+      }
+    }
+    target.hash = '';
+
+    const response = await requestOnce(target.href);
+    if (response.problem) {
+      return { broken: { ...link, ...response.problem }, hops: response.hops, page: null };
+    }
+
+    const ids = anchorIds.get(response.url);
+    if (fragment !== null && ids) {
+      if (!hasAnchor(fragment, ids)) {
+        const suggestions = findClosestAnchors(fragment, ids);
+        const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.map(id => '#' + id).join(', ')}?)` : '';
+        return {
+          broken: { ...link, error: `Anchor #${fragment} not found in ${pathOf(new URL(response.url))}${hint}`, reason: 'missing-anchor', suggestions },
+          hops: response.hops,
+          page: null
+        };
+      }
+    }
+
+    const page = response.isHtml && isUnderRoot(response.url) ? response.url : null;
+    return { broken: null, hops: response.hops, page };
+  }
+
+  // Fetch a page and check its links. Returns the page, or why it couldn't be
+  // checked, and the pages it links to.
+  async function crawlPage(url: string): Promise<{ page: CrawledPage | null; error: string | null; linkedPages: string[] }> {
+    const response = await requestOnce(url);
+    if (response.problem || !response.isHtml) {
+      return { page: null, error: response.problem?.error ?? 'Not an HTML page', linkedPages: [] };
+    }
+
+    // The page was reached through another URL and crawled already
+    const html = pageHtml.get(response.url);
+    if (html === undefined) {
+      return { page: null, error: null, linkedPages: [] };
+    }
+    pageHtml.delete(response.url);
+
+    const links = extractLinksFromHtml(html, response.url);
+    const page: CrawledPage = { url: response.url, links, brokenLinks: [], warnings: [] };
+    const linkedPages: string[] = [];
+
+    const results = await Promise.all(links.map(link => checkLink(link, response.url)));
+    results.forEach(({ broken, hops, page: linkedPage }, index) => {
+      if (broken) {
+        page.brokenLinks.push(broken);
+        return;
+      }
+
+      // Valid links that went through redirects are reported when asked for
+      if (settings.redirectedLinks && hops.length > 0) {
+        const redirectOptions = settings.redirectedLinks === true ? {} : settings.redirectedLinks;
+        const { finding, isError } = describeRedirectedLink(links[index], hops, redirectOptions);
+        (isError ? page.brokenLinks : page.warnings).push(finding);
+      }
+
+      if (linkedPage) {
+        linkedPages.push(linkedPage);
+      }
+    });
+
+    return { page, error: null, linkedPages };
+  }
+
+  const result: CrawlResult = { pages: [], skipped: [], truncated: false };
+  const queued = new Set<string>();
+  const crawled = new Set<string>();
+  let queue: string[] = [];
+
+  const enqueue = (url: string) => {
+    if (queued.has(url)) {
+      return;
+    }
+    if (queued.size >= settings.maxPages) {
+      result.truncated = true;
+      return;
+    }
+    queued.add(url);
+    queue.push(url);
+  };
+
+  settings.seeds.forEach(seed => enqueue(new URL(seed.replace(/^\/+/, ''), root).href));
+
+  // Breadth first, a batch at a time, queueing linked pages in link order so every crawl visits pages in the same order
+  while (queue.length > 0) {
+    const batch = queue;
+    queue = [];
+
+    const batchResults = await Promise.all(batch.map(crawlPage));
+    batchResults.forEach(({ page, error, linkedPages }, index) => {
+      if (page && !crawled.has(page.url)) {
+        crawled.add(page.url);
+        result.pages.push(page);
+      } else if (error !== null) {
+        result.skipped.push({ url: batch[index], error });
+      }
+
+      linkedPages.forEach(enqueue);
+    });
+
+    // Only pages queued for the next batch still need their HTML
+    for (const url of pageHtml.keys()) {
+      if (!queued.has(url)) {
+        pageHtml.delete(url);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,121 @@
+import type { Link } from './types';
+
+/**
+ * Where a block of CSS starts in its file, for CSS embedded in HTML
+ */
+export interface CssStart {
+  line: number;
+  column: number;
+}
+
+/**
+ * References in CSS: `@import "file.css"`, `url(...)` and the opening of an `image-set(...)`
+ */
+const CSS_REFERENCE_PATTERN = /@import\s+(['"])(.*?)\1|\burl\(\s*(['"]?)(.*?)\3\s*\)|(?:-webkit-)?image-set\(/gi;
+
+/**
+ * Quoted strings, which `image-set()` accepts in place of `url()`
+ */
+const CSS_STRING_PATTERN = /(['"])(.*?)\1/g;
+
+/**
+ * Replace comments with spaces, keeping every offset and line break where it was
+ */
+function maskComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Find the offset of the parenthesis that closes the one before `start`
+ */
+function findClosingParen(css: string, start: number): number {
+  let depth = 1;
+
+  for (let i = start; i < css.length; i++) {
+    if (css[i] === '(') depth++;
+    if (css[i] === ')' && --depth === 0) return i;
+  }
+
+  return css.length;
+}
+
+/**
+ * Whether an offset falls inside an `@font-face` rule
+ */
+function isInFontFace(css: string, offset: number): boolean {
+  const fontFace = css.lastIndexOf('@font-face', offset);
+  return fontFace !== -1 && !css.slice(fontFace, offset).includes('}');
+}
+
+/**
+ * Convert an offset into a line and column, relative to where the CSS starts
+ */
+function getPosition(css: string, offset: number, start: CssStart): { line: number; column: number } {
+  const before = css.slice(0, offset);
+  const lines = before.split('\n');
+  const column = lines[lines.length - 1].length + 1;
+
+  return lines.length === 1
+    ? { line: start.line, column: start.column + column - 1 }
+    : { line: start.line + lines.length - 1, column };
+}
+
+/**
+ * Whether a CSS reference points at something that can be checked.
+ * Fragment-only references such as `url(#gradient)` point into the document itself.
+ */
+function isCheckableReference(href: string): boolean {
+  return href !== '' && !href.startsWith('#') && !/^(data|blob|about|javascript):/i.test(href);
+}
+
+/**
+ * Extract the files a stylesheet references: `@import`, `url()` (including
+ * `@font-face` sources) and the plain strings accepted by `image-set()`.
+ * Relative references resolve against `sourceFile`, as they do in browsers.
+ */
+export function extractLinksFromCss(css: string, sourceFile: string, start: CssStart = { line: 1, column: 1 }): Link[] {
+  const masked = maskComments(css);
+  const links: Link[] = [];
+  const imageSets: [number, number][] = [];
+
+  const addLink = (href: string, offset: number, source: string) => {
+    href = href.trim();
+    if (!isCheckableReference(href)) {
+      return;
+    }
+
+    links.push({
+      href,
+      text: href,
+      ...getPosition(masked, offset, start),
+      sourceFile,
+      type: /^([a-z]+:)?\/\//i.test(href) ? 'external' : 'asset',
+      source
+    });
+  };
+
+  for (const match of masked.matchAll(CSS_REFERENCE_PATTERN)) {
+    const offset = match.index ?? 0;
+
+    if (match[2] !== undefined) {
+      addLink(match[2], offset, '@import');
+    } else if (match[4] !== undefined) {
+      const inImageSet = imageSets.some(([from, to]) => offset > from && offset < to);
+      const importRule = /@import\s+$/i.test(masked.slice(0, offset));
+      const source = importRule ? '@import' : inImageSet ? 'image-set()' : isInFontFace(masked, offset) ? '@font-face' : 'url()';
+      addLink(match[4], offset, source);
+    } else {
+      // image-set() takes bare strings as well as url(); the url() entries are matched separately
+      const argsStart = offset + match[0].length;
+      const argsEnd = findClosingParen(masked, argsStart);
+      imageSets.push([offset, argsEnd]);
+
+      const args = masked.slice(argsStart, argsEnd).replace(/\burl\([^)]*\)/gi, call => ' '.repeat(call.length));
+      for (const string of args.matchAll(CSS_STRING_PATTERN)) {
+        addLink(string[2], argsStart + (string.index ?? 0), 'image-set()');
+      }
+    }
+  }
+
+  return links;
+}
@@ -0,0 +1,312 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { checkTrailingSlash, extractLinksFromHtml, matchesExcludePattern } from './link-checker.js';
+import { extractAnchorIds, findClosestAnchors, hasAnchor } from './anchors.js';
+import { createExternalScheduler, toExternalSchedulerSettings } from './external-links.js';
+import { isPublicFile } from './public-files.js';
+import type { BrokenLink, DevBrokenLink, DevPageReport, Link, LinkValidatorOptions } from './types';
+
+/**
+ * Paths the Vite dev server answers itself: modules, optimised dependencies,
+ * processed images and files imported from `src/`
+ */
+const DEV_SERVER_PATHS = ['/@', '/_astro/', '/_image', '/node_modules/', '/src/', '/__'];
+
+/**
+ * What the dev server knows about the site, for resolving links without a build
+ */
+export interface DevLinkCheckerSettings {
+  /**
+   * Patterns of every route the dev server serves (pages, endpoints and redirects),
+   * matched against paths relative to the site base
+   */
+  routes: () => RegExp[];
+  publicDir: string;
+  /**
+   * Site base path without a trailing slash ('' when the site is served from the root)
+   */
+  base: string;
+  trailingSlash: 'always' | 'never' | 'ignore';
+  options: LinkValidatorOptions;
+}
+
+/**
+ * Checks the links of pages rendered by the dev server
+ */
+export interface DevLinkChecker {
+  checkPage(pathname: string, html: string): Promise<DevPageReport>;
+}
+
+/**
+ * Create a checker that resolves the links of a rendered page against the dev
+ * server's routes and public files. Fragments are checked on the page itself;
+ * fragments into other pages are left to the build check, which has their HTML.
+ */
+export function createDevLinkChecker(settings: DevLinkCheckerSettings): DevLinkChecker {
+  const { base, options } = settings;
+  const exclude = options.exclude ?? [];
+  const devOptions = typeof options.devToolbar === 'object' ? options.devToolbar : {};
+
+  // Whether the path, or the same path with its trailing slash toggled, matches a route
+  const matchesRoute = (path: string): boolean => {
+    const toggled = path.endsWith('/') ? path.replace(/\/+$/, '') || '/' : `${path}/`;
+    return settings.routes().some(pattern => pattern.test(path) || pattern.test(toggled));
+  };
+
+  const findProblem = (link: Link, pathname: string, pageIds: () => Set<string>): BrokenLink | null => {
+    let url: URL;
+    try {
+      url = new URL(link.href, `http://dev.invalid${pathname}`);
+    } catch {
+      return { ...link, error: 'Invalid URL', reason: 'invalid' };
+    }
+
+    let fragment: string | null = null;
+    if (url.hash) {
+      try {
+        fragment = decodeURIComponent(url.hash.slice(1));
+      } catch {
+        // Malformed percent-encoding, keep the fragment as written
+        fragment = url.hash.slice(1);
+      }
+    }
+
+    // Anchor-only links, and links back to this page, are checked against its own ids
+    if (url.pathname === pathname) {
+      if (fragment === null || hasAnchor(fragment, pageIds())) {
+        return null;
+      }
+
+      const suggestions = findClosestAnchors(fragment, pageIds());
+      return {
+        ...link,
+        error: `Anchor #${fragment} not found on this page`,
+        reason: 'missing-anchor',
+        ...(suggestions.length > 0 ? { suggestions } : {})
+      };
+    }
+
+    let path = url.pathname;
+    if (base && path !== base && !path.startsWith(`${base}/`)) {
+      return { ...link, error: `Path is outside the site base ${base}/`, reason: 'not-found' };
+    }
+    path = path.slice(base.length) || '/';
+
+    if (DEV_SERVER_PATHS.some(prefix => path.startsWith(prefix))) {
+      return null;
+    }
+
+    let decodedPath: string;
+    try {
+      decodedPath = decodeURIComponent(path);
+    } catch {
+      return { ...link, error: 'Invalid URL encoding', reason: 'invalid' };
+    }
+
+    if (isPublicFile(settings.publicDir, decodedPath)) {
+      return null;
+    }
+
+    if (!matchesRoute(path) && !matchesRoute(decodedPath)) {
+      return { ...link, error: `No route or public file serves ${base}${path}`, reason: 'not-found' };
+    }
+
+    return checkTrailingSlash(link, base + path, { base, trailingSlash: settings.trailingSlash });
+  };
+
+  return {
+    async checkPage(pathname, html) {
+      const links = extractLinksFromHtml(html, pathname);
+      let ids: Set<string> | null = null;
+      const pageIds = () => ids ??= extractAnchorIds(html);
+
+      // A scheduler per page, so fixing an external link shows up on the next check
+      const externalScheduler = devOptions.checkExternal
+        ? createExternalScheduler(toExternalSchedulerSettings(options))
+        : null;
+
+      const seen = new Map<string, number>();
+      const results = await Promise.all(links.map(async (link): Promise<DevBrokenLink | null> => {
+        const element = `${link.source?.match(/^[\w-]+/)?.[0]}\0${link.href}`;
+        const occurrence = seen.get(element) ?? 0;
+        seen.set(element, occurrence + 1);
+
+        if (exclude.some(pattern => matchesExcludePattern(link.href, pattern))) {
+          return null;
+        }
+
+        const broken = link.type === 'external'
+          ? await externalScheduler?.check(link) ?? null
+          : findProblem(link, pathname, pageIds);
+
+        return broken && { ...broken, occurrence };
+      }));
+
+      return {
+        pathname,
+        totalLinks: links.length,
+        brokenLinks: results.filter((link): link is DevBrokenLink => link !== null)
+      };
+    }
+  };
+}
+
+/**
+ * Read the headers passed to `writeHead`, given as an object, a flat array of
+ * names and values, or an array of pairs
+ */
+function headerEntries(headers: unknown): [string, unknown][] {
+  if (!Array.isArray(headers)) {
+    return typeof headers === 'object' && headers !== null ? Object.entries(headers) : [];
+  }
+
+  if (headers.every(Array.isArray)) {
+    return headers as [string, unknown][];
+  }
+
+  const entries: [string, unknown][] = [];
+  for (let i = 0; i < headers.length; i += 2) {
+    entries.push([String(headers[i]), headers[i + 1]]);
+  }
+  return entries;
+}
+
+/**
+ * Create a dev server middleware that passes each HTML page it serves to `onPage`,
+ * along with the URL path it was requested at. The response itself is untouched.
+ */
+export function createDevPageMiddleware(onPage: (pathname: string, html: string) => void) {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void): void => {
+    if (req.method !== 'GET' || !req.headers.accept?.includes('text/html')) {
+      next();
+      return;
+    }
+
+    const pathname = new URL(req.url ?? '/', 'http://dev.invalid').pathname;
+    const chunks: Buffer[] = [];
+    const collect = (chunk: unknown, encoding: unknown) => {
+      if (typeof chunk === 'string') {
+        chunks.push(Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf-8'));
+      } else if (chunk instanceof Uint8Array) {
+        chunks.push(Buffer.from(chunk));
+      }
+    };
+
+    // Headers passed to writeHead are sent without being stored on the response
+    const writeHeadHeaders = new Map<string, string>();
+    const getHeader = (name: string) => writeHeadHeaders.get(name) ?? String(res.getHeader(name) ?? '');
+
+    const writeHead = res.writeHead;
+    res.writeHead = function (this: ServerResponse, ...args: unknown[]) {
+      for (const [name, value] of headerEntries(args.find(arg => typeof arg === 'object'))) {
+        writeHeadHeaders.set(name.toLowerCase(), String(value));
+      }
+      return (writeHead as (...args: unknown[]) => ServerResponse).apply(this, args);
+    } as typeof res.writeHead;
+
+    const write = res.write;
+    res.write = function (this: ServerResponse, chunk: unknown, ...rest: unknown[]) {
+      collect(chunk, rest[0]);
+      return (write as (...args: unknown[]) => boolean).call(this, chunk, ...rest);
+    } as typeof res.write;
+
+    const end = res.end;
+    res.end = function (this: ServerResponse, chunk?: unknown, ...rest: unknown[]) {
+      if (typeof chunk !== 'function') {
+        collect(chunk, rest[0]);
+      }
+
+      if (res.statusCode === 200 && getHeader('content-type').includes('text/html') && !getHeader('content-encoding')) {
+        onPage(pathname, Buffer.concat(chunks).toString('utf-8'));
+      }
+
+      return (end as (...args: unknown[]) => ServerResponse).call(this, chunk, ...rest);
+    } as typeof res.end;
+
+    next();
+  };
+}
+
+/**
+ * The dev server side of the Dev Toolbar's messaging
+ */
+export interface DevToolbarServer {
+  send<T>(event: string, payload: T): void;
+  on<T>(event: string, callback: (data: T) => void): void;
+}
+
+/**
+ * Keeps the latest report of each page the dev server rendered, and sends them
+ * to the Dev Toolbar app
+ */
+export interface DevLinkReports {
+  /**
+   * Check a page the dev server just rendered, and send its report
+   */
+  pageServed(pathname: string, html: string): void;
+  /**
+   * Answer the toolbar app's requests for a page's report. `renderPage` requests
+   * the page from the dev server again, which checks it on the way out.
+   */
+  connect(toolbar: DevToolbarServer, renderPage: (pathname: string) => Promise<void>): void;
+  /**
+   * Tell open pages that a file changed, so they ask to be checked again
+   */
+  filesChanged(): void;
+}
+
+/**
+ * How long to wait for more file changes before telling pages their reports are stale
+ */
+const STALE_DELAY = 200;
+
+/**
+ * Request and payload the toolbar app sends for its page's report
+ */
+interface PageReportRequest {
+  pathname: string;
+  /**
+   * Render the page again rather than answering with the last report
+   */
+  refresh: boolean;
+}
+
+/**
+ * Create the store of dev page reports for one dev server
+ */
+export function createDevLinkReports(checker: DevLinkChecker): DevLinkReports {
+  const reports = new Map<string, Promise<DevPageReport>>();
+  let toolbar: DevToolbarServer | null = null;
+  let staleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const send = (report: DevPageReport) => toolbar?.send('astro-link-validator:report', report);
+
+  return {
+    pageServed(pathname, html) {
+      const report = checker.checkPage(pathname, html);
+      reports.set(pathname, report);
+      report.then(send, (error) => {
+        console.warn(`Warning: Could not check the links on ${pathname}:`, error instanceof Error ? error.message : error);
+      });
+    },
+
+    connect(server, renderPage) {
+      toolbar = server;
+      server.on<PageReportRequest>('astro-link-validator:page', ({ pathname, refresh }) => {
+        const report = reports.get(pathname);
+        if (report && !refresh) {
+          report.then(send, () => {});
+          return;
+        }
+
+        renderPage(pathname).catch((error) => {
+          console.warn(`Warning: Could not render ${pathname} to check its links:`, error instanceof Error ? error.message : error);
+        });
+      });
+    },
+
+    filesChanged() {
+      clearTimeout(staleTimer);
+      staleTimer = setTimeout(() => toolbar?.send('astro-link-validator:stale', {}), STALE_DELAY);
+    }
+  };
+}
@@ -0,0 +1,136 @@
+import type { DevToolbarApp } from 'astro';
+import { defineToolbarApp } from 'astro/toolbar';
+import type { DevBrokenLink, DevPageReport } from './types';
+
+/**
+ * Find the element a broken link came from: the nth element with the same tag
+ * that has the href as an attribute value, or within its `srcset` or `style`
+ */
+function findLinkElement(link: DevBrokenLink): Element | null {
+  const tag = link.source?.match(/^[\w-]+/)?.[0];
+  if (!tag) {
+    return null;
+  }
+
+  const candidates = Array.from(document.querySelectorAll(tag)).filter(element =>
+    Array.from(element.attributes).some(attribute =>
+      attribute.name === 'srcset' || attribute.name === 'style'
+        ? attribute.value.includes(link.href)
+        : attribute.value.trim() === link.href
+    )
+  );
+
+  return candidates[link.occurrence] ?? null;
+}
+
+/**
+ * Position a highlight over an element, in document coordinates
+ */
+function positionHighlight(highlight: HTMLElement, element: Element): void {
+  const rect = element.getBoundingClientRect();
+  highlight.style.display = rect.width === 0 || rect.height === 0 ? 'none' : 'block';
+  highlight.style.top = `${Math.max(rect.top + window.scrollY - 10, 0)}px`;
+  highlight.style.left = `${Math.max(rect.left + window.scrollX - 10, 0)}px`;
+  highlight.style.width = `${rect.width + 15}px`;
+  highlight.style.height = `${rect.height + 15}px`;
+}
+
+/**
+ * Dev Toolbar app listing the broken links of the current page. The dev server
+ * checks each page as it renders it and sends the report; the app asks for the
+ * current page's report when it starts and again when files change.
+ */
+const toolbarApp: DevToolbarApp = defineToolbarApp({
+  init(canvas, app, server) {
+    const pathname = window.location.pathname;
+    let report: DevPageReport | null = null;
+    let unavailable: string | null = null;
+
+    const highlights: { highlight: HTMLElement; element: Element }[] = [];
+    const windowElement = document.createElement('astro-dev-toolbar-window');
+    canvas.append(windowElement);
+
+    const render = () => {
+      highlights.forEach(({ highlight }) => highlight.remove());
+      highlights.length = 0;
+      windowElement.replaceChildren();
+
+      const heading = document.createElement('h1');
+      heading.textContent = 'Links';
+      const summary = document.createElement('p');
+      windowElement.append(heading, summary);
+
+      if (unavailable) {
+        summary.textContent = unavailable;
+        return;
+      }
+
+      if (!report) {
+        summary.textContent = 'Checking this page…';
+        return;
+      }
+
+      if (report.brokenLinks.length === 0) {
+        summary.textContent = `All ${report.totalLinks} links on this page resolve.`;
+        return;
+      }
+
+      summary.textContent = `${report.brokenLinks.length} of ${report.totalLinks} links on this page are broken:`;
+      const list = document.createElement('ul');
+      windowElement.append(list);
+
+      for (const link of report.brokenLinks) {
+        const item = document.createElement('li');
+        const href = document.createElement('code');
+        href.textContent = link.href;
+        const location = link.line ? ` (line ${link.line})` : '';
+        const suggestions = link.suggestions ? ` Did you mean #${link.suggestions.join(', #')}?` : '';
+        item.append(href, ` ${link.error}${location}.${suggestions}`);
+        list.append(item);
+
+        const element = findLinkElement(link);
+        if (element) {
+          const highlight = document.createElement('astro-dev-toolbar-highlight');
+          highlight.highlightStyle = 'red';
+          highlight.title = `${link.href}: ${link.error}`;
+          positionHighlight(highlight, element);
+          canvas.append(highlight);
+          highlights.push({ highlight, element });
+
+          item.style.cursor = 'pointer';
+          item.addEventListener('click', () => element.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+        }
+      }
+    };
+
+    window.addEventListener('resize', () => {
+      highlights.forEach(({ highlight, element }) => positionHighlight(highlight, element));
+    });
+
+    server.on<DevPageReport>('astro-link-validator:report', (pageReport) => {
+      if (pageReport.pathname !== pathname) {
+        return;
+      }
+
+      report = pageReport;
+      app.toggleNotification(report.brokenLinks.length > 0 ? { state: true, level: 'error' } : { state: false });
+      render();
+    });
+
+    // The dev server can't check links, e.g. on Astro 4
+    server.on<{ message: string }>('astro-link-validator:unavailable', ({ message }) => {
+      unavailable = message;
+      render();
+    });
+
+    // Pages, content or public files changed: have the page rendered and checked again
+    server.on('astro-link-validator:stale', () => {
+      server.send('astro-link-validator:page', { pathname, refresh: true });
+    });
+
+    render();
+    server.send('astro-link-validator:page', { pathname, refresh: false });
+  }
+});
+
+export default toolbarApp;
@@ -0,0 +1,131 @@
+import { promises as fs } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { BrokenLink, ExternalCacheOptions } from './types';
+
+/**
+ * Default location of the cache file, relative to the working directory
+ */
+export const DEFAULT_EXTERNAL_CACHE_PATH = 'node_modules/.cache/astro-link-validator/external-links.json';
+
+/**
+ * Default time-to-live for successful checks (one day)
+ */
+const DEFAULT_SUCCESS_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Default time-to-live for failed checks (one hour), so broken URLs are retried sooner
+ */
+const DEFAULT_FAILURE_TTL = 60 * 60 * 1000;
+
+/**
+ * Outcome of checking one external URL, as stored in the cache
+ */
+export interface ExternalCacheEntry {
+  /**
+   * HTTP status of the response, or null when no response was received
+   */
+  status: number | null;
+
+  /**
+   * Why the URL is broken, or null when it is valid
+   */
+  reason: BrokenLink['reason'] | null;
+
+  error?: string;
+
+  /**
+   * When the URL was checked, in milliseconds since the epoch
+   */
+  checkedAt: number;
+}
+
+/**
+ * External link results loaded from disk, shared by a single checkLinks run
+ */
+export interface ExternalCache {
+  path: string;
+  entries: Map<string, ExternalCacheEntry>;
+  successTtl: number;
+  failureTtl: number;
+  refresh: 'expired' | 'all';
+  dirty: boolean;
+}
+
+/**
+ * Shape of the cache file on disk
+ */
+interface ExternalCacheFile {
+  version: 1;
+  entries: Record<string, ExternalCacheEntry>;
+}
+
+/**
+ * Load the external link cache. A missing or unreadable file starts an empty cache.
+ */
+export async function loadExternalCache(options: true | ExternalCacheOptions): Promise<ExternalCache> {
+  const settings = options === true ? {} : options;
+  const path = resolve(settings.path ?? DEFAULT_EXTERNAL_CACHE_PATH);
+  const entries = new Map<string, ExternalCacheEntry>();
+
+  try {
+    const file = JSON.parse(await fs.readFile(path, 'utf-8')) as ExternalCacheFile;
+    for (const [url, entry] of Object.entries(file.entries ?? {})) {
+      entries.set(url, entry);
+    }
+  } catch {
+    // No usable cache yet, every URL will be checked
+  }
+
+  return {
+    path,
+    entries,
+    successTtl: settings.successTtl ?? DEFAULT_SUCCESS_TTL,
+    failureTtl: settings.failureTtl ?? DEFAULT_FAILURE_TTL,
+    refresh: settings.refresh ?? 'expired',
+    dirty: false
+  };
+}
+
+/**
+ * Get the cached result for a URL if it is still within its time-to-live
+ */
+export function getCachedResult(cache: ExternalCache, url: string, now: number = Date.now()): ExternalCacheEntry | null {
+  if (cache.refresh === 'all') {
+    return null;
+  }
+
+  const entry = cache.entries.get(url);
+  if (!entry) {
+    return null;
+  }
+
+  const ttl = entry.reason === null ? cache.successTtl : cache.failureTtl;
+  return now - entry.checkedAt < ttl ? entry : null;
+}
+
+/**
+ * Record the result of checking a URL
+ */
+export function setCachedResult(cache: ExternalCache, url: string, entry: ExternalCacheEntry): void {
+  cache.entries.set(url, entry);
+  cache.dirty = true;
+}
+
+/**
+ * Write the cache back to disk if anything changed
+ */
+export async function saveExternalCache(cache: ExternalCache): Promise<void> {
+  if (!cache.dirty) {
+    return;
+  }
+
+  const file: ExternalCacheFile = { version: 1, entries: Object.fromEntries(cache.entries) };
+
+  try {
+    await fs.mkdir(dirname(cache.path), { recursive: true });
+    await fs.writeFile(cache.path, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+    cache.dirty = false;
+  } catch (error) {
+    console.warn(`Warning: Could not write external link cache at ${cache.path}:`, error instanceof Error ? error.message : error);
+  }
+}
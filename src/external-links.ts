@@ -0,0 +1,315 @@
+import type { BrokenLink, ExternalDomainOptions, Link, LinkValidatorOptions } from './types';
+import { getCachedResult, setCachedResult, type ExternalCache, type ExternalCacheEntry } from './external-cache.js';
+
+/**
+ * HTTP statuses that mean "try again later" rather than "broken"
+ */
+const RETRYABLE_STATUSES = [429, 503];
+
+/**
+ * Upper bound on how long a Retry-After header can make us wait
+ */
+const MAX_RETRY_AFTER = 60_000;
+
+/**
+ * User-Agent sent unless a domain configures its own
+ */
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; astro-link-checker/1.0.0)';
+
+/**
+ * Result of requesting an external URL, before it is attached to a link
+ */
+type ExternalResult = Omit<ExternalCacheEntry, 'checkedAt'> & {
+  /**
+   * Delay requested by a Retry-After header, in milliseconds
+   */
+  retryAfter?: number;
+};
+
+/**
+ * Settings for the external link scheduler
+ */
+export interface ExternalSchedulerSettings {
+  timeout: number;
+  concurrency: number;
+  hostConcurrency: number;
+  retries: number;
+  retryDelay: number;
+  acceptedStatusCodes: number[];
+  domains: Record<string, ExternalDomainOptions>;
+}
+
+/**
+ * Scheduler settings from the validator options, with their defaults filled in
+ */
+export function toExternalSchedulerSettings(options: LinkValidatorOptions): ExternalSchedulerSettings {
+  return {
+    timeout: options.externalTimeout ?? 5000,
+    concurrency: options.externalConcurrency ?? 10,
+    hostConcurrency: options.externalHostConcurrency ?? 2,
+    retries: options.externalRetries ?? 2,
+    retryDelay: options.externalRetryDelay ?? 1000,
+    acceptedStatusCodes: options.acceptedStatusCodes ?? [],
+    domains: options.externalDomains ?? {}
+  };
+}
+
+/**
+ * How to request one URL, after applying any per-domain settings
+ */
+interface ExternalRequest {
+  timeout: number;
+  headers: Record<string, string>;
+  acceptedStatusCodes: number[];
+}
+
+/**
+ * Checks external links for a whole checkLinks run: each unique URL is
+ * requested once, and requests are spread across hosts
+ */
+export interface ExternalScheduler {
+  check(link: Link): Promise<BrokenLink | null>;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+
+  return Number.isNaN(delay) ? undefined : Math.min(Math.max(delay, 0), MAX_RETRY_AFTER);
+}
+
+/**
+ * Send a single request, giving up after the timeout. A GET body is never read:
+ * the status is all we need, so the download is cancelled once headers arrive.
+ */
+async function sendRequest(url: string, method: 'HEAD' | 'GET', request: ExternalRequest): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), request.timeout);
+
+  try {
+    const response = await fetch(url, { method, signal: controller.signal, headers: request.headers });
+    await response.body?.cancel().catch(() => {});
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Request an external URL and classify the response. Servers that reject HEAD
+ * (405, 403 or bot blocking) are retried once with GET before the URL is reported.
+ */
+async function requestExternalUrl(url: string, request: ExternalRequest): Promise<ExternalResult> {
+  const isAccepted = (response: Response) => response.ok || request.acceptedStatusCodes.includes(response.status);
+
+  try {
+    let response = await sendRequest(url, 'HEAD', request);
+
+    // Rate limits and outages are left to the retry loop rather than doubled up with a GET
+    if (!isAccepted(response) && !RETRYABLE_STATUSES.includes(response.status)) {
+      response = await sendRequest(url, 'GET', request);
+    }
+
+    if (isAccepted(response)) {
+      return { status: response.status, reason: null }; // Link is valid
+    }
+
+    return {
+      status: response.status,
+      reason: 'network-error',
+      error: `HTTP ${response.status}: ${response.statusText}`,
+      retryAfter: parseRetryAfter(response.headers.get('retry-after'))
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.name === 'AbortError') {
+        return { status: null, reason: 'timeout', error: `Request timeout after ${request.timeout}ms` };
+      }
+
+      return { status: null, reason: 'network-error', error: error.message };
+    }
+
+    return { status: null, reason: 'network-error', error: 'Unknown error' };
+  }
+}
+
+/**
+ * Find the settings for a URL's host: an exact hostname key wins over the
+ * most specific `*.` wildcard key that matches
+ */
+function findDomainOptions(url: string, domains: Record<string, ExternalDomainOptions>): ExternalDomainOptions | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+
+  if (domains[hostname]) {
+    return domains[hostname];
+  }
+
+  const wildcard = Object.keys(domains)
+    .filter(key => key.startsWith('*.') && (hostname === key.slice(2) || hostname.endsWith(key.slice(1))))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return wildcard ? domains[wildcard] : undefined;
+}
+
+/**
+ * Build the request for a URL from the global settings and its domain's overrides
+ */
+function buildRequest(url: string, settings: ExternalSchedulerSettings): ExternalRequest {
+  const domain = findDomainOptions(url, settings.domains) ?? {};
+  const headers: Record<string, string> = {
+    'User-Agent': domain.userAgent ?? DEFAULT_USER_AGENT,
+    ...domain.headers
+  };
+
+  if (domain.cookies) {
+    headers.Cookie = Object.entries(domain.cookies).map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+
+  return {
+    timeout: domain.timeout ?? settings.timeout,
+    headers,
+    acceptedStatusCodes: [...settings.acceptedStatusCodes, ...(domain.acceptedStatusCodes ?? [])]
+  };
+}
+
+/**
+ * Host a URL is rate limited under. Unparseable URLs share one bucket.
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Create the external link scheduler for one checkLinks run
+ */
+export function createExternalScheduler(
+  settings: ExternalSchedulerSettings,
+  cache: ExternalCache | null = null
+): ExternalScheduler {
+  const results = new Map<string, Promise<ExternalResult>>();
+  const activeByHost = new Map<string, number>();
+  const waiting: { host: string; start: () => void }[] = [];
+  let active = 0;
+
+  // Start every waiting request that fits under both the global and its host's cap
+  function pump(): void {
+    for (let i = 0; i < waiting.length && active < settings.concurrency; i++) {
+      const { host, start } = waiting[i];
+      const hostActive = activeByHost.get(host) ?? 0;
+
+      if (hostActive < settings.hostConcurrency) {
+        waiting.splice(i--, 1);
+        active++;
+        activeByHost.set(host, hostActive + 1);
+        start();
+      }
+    }
+  }
+
+  async function withSlot<T>(host: string, task: () => Promise<T>): Promise<T> {
+    await new Promise<void>(start => {
+      waiting.push({ host, start });
+      pump();
+    });
+
+    try {
+      return await task();
+    } finally {
+      active--;
+      activeByHost.set(host, (activeByHost.get(host) ?? 1) - 1);
+      pump();
+    }
+  }
+
+  // Request a URL, backing off and retrying on rate limits, outages and timeouts
+  async function requestWithRetries(url: string): Promise<ExternalResult> {
+    const host = getHost(url);
+    const request = buildRequest(url, settings);
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await withSlot(host, () => requestExternalUrl(url, request));
+      const retryable = result.reason === 'timeout' || (result.status !== null && RETRYABLE_STATUSES.includes(result.status));
+
+      if (!retryable || attempt >= settings.retries) {
+        return result;
+      }
+
+      await sleep(result.retryAfter ?? settings.retryDelay * 2 ** attempt);
+    }
+  }
+
+  // A cached result, classified against the accepted status codes of this run,
+  // which may have changed since it was stored. Returns null to request the URL again.
+  function reclassify(url: string, cached: ExternalCacheEntry): ExternalResult | null {
+    if (cached.status === null) {
+      return cached;
+    }
+
+    const isAccepted = (cached.status >= 200 && cached.status < 300) || buildRequest(url, settings).acceptedStatusCodes.includes(cached.status);
+    if (cached.reason !== null) {
+      return isAccepted ? { status: cached.status, reason: null } : cached;
+    }
+
+    // A status that was accepted and no longer is has no error message stored
+    return isAccepted ? cached : null;
+  }
+
+  async function resolveUrl(url: string): Promise<ExternalResult> {
+    const cached = cache ? getCachedResult(cache, url) : null;
+    const cachedResult = cached && reclassify(url, cached);
+    if (cachedResult) {
+      return cachedResult;
+    }
+
+    const { retryAfter, ...result } = await requestWithRetries(url);
+    if (cache) {
+      setCachedResult(cache, url, { ...result, checkedAt: Date.now() });
+    }
+    return result;
+  }
+
+  return {
+    async check(link: Link): Promise<BrokenLink | null> {
+      let pending = results.get(link.href);
+      if (!pending) {
+        pending = resolveUrl(link.href);
+        results.set(link.href, pending);
+      }
+
+      const result = await pending;
+
+      if (result.reason === null) {
+        return null;
+      }
+
+      return {
+        ...link,
+        error: result.error ?? 'Unknown error',
+        reason: result.reason
+      };
+    }
+  };
+}
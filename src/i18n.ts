@@ -0,0 +1,217 @@
+import { toSelfPath } from './link-checker.js';
+import { pageUrl } from './link-graph.js';
+import type { I18nConfig, I18nIssue, Link } from './types';
+
+/**
+ * A locale of the site: the URL path segment its pages sit under, and the
+ * language codes hreflang attributes name it by
+ */
+interface Locale {
+  path: string;
+  codes: string[];
+}
+
+/**
+ * A checked page and the links the i18n checks look at
+ */
+export interface I18nPage {
+  /**
+   * HTML file relative to the build directory (e.g. 'fr/about/index.html')
+   */
+  page: string;
+  links: Link[];
+}
+
+/**
+ * A link resolved to the page it points to on this site
+ */
+interface ResolvedLink {
+  link: Link;
+  /**
+   * Page path relative to the site base, normalized, or null when the link leaves the site
+   */
+  target: string | null;
+}
+
+/**
+ * What the checks know about a page
+ */
+interface PageInfo {
+  page: string;
+  path: string;
+  locale: Locale | null;
+  /**
+   * `<link rel="alternate" hreflang>` tags, with their language codes
+   */
+  alternates: (ResolvedLink & { hreflang: string })[];
+  anchors: ResolvedLink[];
+}
+
+/**
+ * Normalize a page path so '/fr/about', '/fr/about/' and '/fr/about/index.html' compare equal
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\/index\.html$/, '/').replace(/\.html$/, '').replace(/\/+$/, '') || '/';
+}
+
+/**
+ * Whether an hreflang value names a locale, counting region variants such as
+ * 'en-US' for 'en'
+ */
+function matchesLocale(hreflang: string, locale: Locale): boolean {
+  const value = hreflang.toLowerCase();
+  return locale.codes.some(code => value === code.toLowerCase() || value.startsWith(code.toLowerCase() + '-'));
+}
+
+/**
+ * Check the locale alternates and cross-locale links of the checked pages:
+ * - each page's hreflang alternates include the page itself and an `x-default`;
+ * - every alternate page lists the page back;
+ * - links into another locale are flagged where the linking page's own locale
+ *   has an equivalent page, found through the target's alternates or by
+ *   swapping the locale prefix. Links to the linking page's own alternates
+ *   (language switchers) are left alone.
+ */
+export function validateI18n(
+  pages: I18nPage[],
+  settings: { i18n: I18nConfig; base: string; siteOrigins: string[] }
+): I18nIssue[] {
+  const { base } = settings;
+  const locales: Locale[] = settings.i18n.locales.map(locale =>
+    typeof locale === 'string' ? { path: locale, codes: [locale] } : { path: locale.path, codes: locale.codes }
+  );
+  const defaultLocale = locales.find(locale => locale.path === settings.i18n.defaultLocale) ?? null;
+  const routing = settings.i18n.routing;
+  const prefixDefaultLocale = typeof routing === 'object' && routing.prefixDefaultLocale === true;
+
+  const localeOf = (path: string): Locale | null => {
+    const segment = path.split('/')[1];
+    return locales.find(locale => locale.path === segment) ?? (prefixDefaultLocale ? null : defaultLocale);
+  };
+
+  // The path of a page in another locale, by swapping its locale prefix
+  const swapLocale = (path: string, from: Locale, to: Locale): string => {
+    const isPrefixed = (locale: Locale) => locale !== defaultLocale || prefixDefaultLocale;
+    const rest = isPrefixed(from) ? path.slice(from.path.length + 1) || '/' : path;
+    return normalizePath(isPrefixed(to) ? `/${to.path}${rest}` : rest);
+  };
+
+  // Resolve an href on a page to the page path it points to, relative to the base
+  const resolveTarget = (href: string, pagePath: string): string | null => {
+    // Absolute URLs count when they're on one of the site's own origins
+    const isAbsolute = /^([a-z][a-z\d+.-]*:)?\/\//i.test(href);
+    const selfPath = isAbsolute ? toSelfPath(href, settings.siteOrigins) : null;
+    if (isAbsolute && selfPath === null) {
+      return null;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURI(new URL(selfPath ?? href, `http://site.invalid${base}${pagePath}`).pathname);
+    } catch {
+      return null;
+    }
+
+    if (base && pathname !== base && !pathname.startsWith(base + '/')) {
+      return null;
+    }
+    return normalizePath(pathname.slice(base.length) || '/');
+  };
+
+  const byPath = new Map<string, PageInfo>();
+  const infos = pages.map(({ page, links }): PageInfo => {
+    const url = pageUrl(page);
+    const info: PageInfo = {
+      page,
+      path: normalizePath(url),
+      locale: localeOf(url),
+      alternates: links
+        .filter(link => link.source?.startsWith('link[hreflang='))
+        .map(link => ({ link, hreflang: link.source!.slice('link[hreflang='.length, -1), target: resolveTarget(link.href, url) })),
+      anchors: links
+        .filter(link => link.source === 'a[href]' && !link.href.startsWith('#'))
+        .map(link => ({ link, target: resolveTarget(link.href, url) }))
+    };
+    byPath.set(info.path, info);
+    return info;
+  });
+
+  // The page in a locale equivalent to another page, if the build has one
+  const findEquivalent = (info: PageInfo, locale: Locale): PageInfo | null => {
+    for (const alternate of info.alternates) {
+      const page = alternate.target !== null && matchesLocale(alternate.hreflang, locale) ? byPath.get(alternate.target) : undefined;
+      if (page) {
+        return page;
+      }
+    }
+
+    return info.locale ? byPath.get(swapLocale(info.path, info.locale, locale)) ?? null : null;
+  };
+
+  const issues: I18nIssue[] = [];
+  const location = (link: Link) => ({ href: link.href, line: link.line, column: link.column });
+
+  for (const info of infos) {
+    if (info.alternates.length > 0) {
+      if (!info.alternates.some(alternate => alternate.target === info.path)) {
+        issues.push({
+          page: info.page,
+          reason: 'missing-self-reference',
+          error: `Hreflang alternates don't include the page itself (${base}${pageUrl(info.page)})`
+        });
+      }
+
+      if (!info.alternates.some(alternate => alternate.hreflang.toLowerCase() === 'x-default')) {
+        issues.push({
+          page: info.page,
+          reason: 'missing-x-default',
+          error: 'Hreflang alternates have no x-default'
+        });
+      }
+
+      for (const alternate of info.alternates) {
+        if (alternate.target === null || alternate.target === info.path || alternate.hreflang.toLowerCase() === 'x-default') {
+          continue;
+        }
+
+        // Alternates that aren't built pages are reported by the link check itself
+        const other = byPath.get(alternate.target);
+        if (other && !other.alternates.some(back => back.target === info.path && back.hreflang.toLowerCase() !== 'x-default')) {
+          issues.push({
+            page: info.page,
+            ...location(alternate.link),
+            reason: 'missing-return-link',
+            error: `Alternate ${other.page} (hreflang="${alternate.hreflang}") has no hreflang alternate pointing back to this page`
+          });
+        }
+      }
+    }
+
+    if (!info.locale) {
+      continue;
+    }
+
+    for (const anchor of info.anchors) {
+      const other = anchor.target !== null ? byPath.get(anchor.target) : undefined;
+      if (!other?.locale || other.locale === info.locale) {
+        continue;
+      }
+
+      const equivalent = findEquivalent(other, info.locale);
+      if (!equivalent || equivalent === info) {
+        continue;
+      }
+
+      const suggestion = base + pageUrl(equivalent.page);
+      issues.push({
+        page: info.page,
+        ...location(anchor.link),
+        reason: 'cross-locale-link',
+        error: `Links to a ${other.locale.path} page from a ${info.locale.path} page; the ${info.locale.path} equivalent is ${suggestion}`,
+        suggestion
+      });
+    }
+  }
+
+  return issues;
+}
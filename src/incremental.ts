@@ -0,0 +1,185 @@
+import { promises as fs } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { dirname, relative, resolve, sep } from 'node:path';
+import type { BrokenLink, IncrementalOptions, Link, RedirectHop } from './types';
+
+/**
+ * Default location of the manifest, relative to the working directory
+ */
+export const DEFAULT_MANIFEST_PATH = 'node_modules/.cache/astro-link-validator/manifest.json';
+
+/**
+ * Bumped whenever extraction or resolution changes, so older manifests are ignored
+ */
+const MANIFEST_VERSION = 1;
+
+/**
+ * What the manifest records about one built file
+ */
+export interface ManifestFileEntry {
+  /**
+   * Hash of the file content the rest of the entry was extracted from
+   */
+  hash: string;
+  /**
+   * Links extracted from the file, with `sourceFile` relative to the build directory
+   */
+  links?: Link[];
+  anchorIds?: string[];
+}
+
+/**
+ * The outcome of resolving one internal href, with everything it depended on
+ */
+export interface StoredResolution {
+  broken: Pick<BrokenLink, 'error' | 'reason' | 'suggestions'> | null;
+  /**
+   * Build file the href resolved to, relative to the build directory
+   */
+  targetFile: string | null;
+  hops: RedirectHop[];
+  /**
+   * Build path lookups made while resolving (`kind:path`), and what each returned
+   */
+  lookups: Record<string, string>;
+  /**
+   * Hashes of the pages whose ids were checked for a fragment, by build path
+   */
+  anchorFiles: Record<string, string>;
+}
+
+/**
+ * Manifest of an earlier run, and the one being recorded for the next
+ */
+export interface Manifest {
+  path: string;
+  buildDir: string;
+  /**
+   * Hashes the settings the stored results depend on; a different key discards them
+   */
+  configKey: string;
+  previous: {
+    files: Map<string, ManifestFileEntry>;
+    resolutions: Map<string, StoredResolution>;
+  };
+  next: {
+    files: Map<string, ManifestFileEntry>;
+    resolutions: Map<string, StoredResolution>;
+  };
+  /**
+   * Content hashes computed this run, by build path
+   */
+  hashes: Map<string, Promise<string>>;
+  /**
+   * How many extracted files and href resolutions were reused this run
+   */
+  reused: { links: number; resolutions: number };
+}
+
+/**
+ * Shape of the manifest file on disk
+ */
+interface ManifestFile {
+  version: number;
+  configKey: string;
+  files: Record<string, ManifestFileEntry>;
+  resolutions: Record<string, StoredResolution>;
+}
+
+/**
+ * Hash a value that identifies the settings stored results were computed with
+ */
+export function hashConfig(config: unknown): string {
+  return createHash('sha256').update(JSON.stringify(config)).digest('hex');
+}
+
+/**
+ * Get the path of a file relative to the build directory, with posix separators
+ */
+export function toBuildPath(filePath: string, buildDir: string): string {
+  return relative(resolve(buildDir), resolve(filePath)).split(sep).join('/');
+}
+
+/**
+ * Load the manifest of the previous run. A missing or unreadable manifest, or one
+ * written for other settings, starts from scratch.
+ */
+export async function loadManifest(options: true | IncrementalOptions, buildDir: string, configKey: string): Promise<Manifest> {
+  const settings = options === true ? {} : options;
+  const manifest: Manifest = {
+    path: resolve(settings.path ?? DEFAULT_MANIFEST_PATH),
+    buildDir,
+    configKey,
+    previous: { files: new Map(), resolutions: new Map() },
+    next: { files: new Map(), resolutions: new Map() },
+    hashes: new Map(),
+    reused: { links: 0, resolutions: 0 }
+  };
+
+  try {
+    const file = JSON.parse(await fs.readFile(manifest.path, 'utf-8')) as ManifestFile;
+    if (file.version === MANIFEST_VERSION && file.configKey === configKey) {
+      manifest.previous.files = new Map(Object.entries(file.files ?? {}));
+      manifest.previous.resolutions = new Map(Object.entries(file.resolutions ?? {}));
+    }
+  } catch {
+    // No usable manifest yet, every file will be checked
+  }
+
+  return manifest;
+}
+
+/**
+ * Hash the content of a build file, once per run
+ */
+export function hashBuildFile(manifest: Manifest, filePath: string): Promise<string> {
+  const buildPath = toBuildPath(filePath, manifest.buildDir);
+  let hash = manifest.hashes.get(buildPath);
+
+  if (!hash) {
+    hash = fs.readFile(filePath).then(content => createHash('sha256').update(content).digest('hex'));
+    manifest.hashes.set(buildPath, hash);
+  }
+
+  return hash;
+}
+
+/**
+ * Get the entry of a file from the previous run if the file hasn't changed since,
+ * and start its entry for the next run
+ */
+export async function getFileEntry(
+  manifest: Manifest,
+  filePath: string
+): Promise<{ previous: ManifestFileEntry | null; next: ManifestFileEntry }> {
+  const buildPath = toBuildPath(filePath, manifest.buildDir);
+  const hash = await hashBuildFile(manifest, filePath);
+  const previous = manifest.previous.files.get(buildPath);
+
+  let next = manifest.next.files.get(buildPath);
+  if (!next) {
+    next = { hash };
+    manifest.next.files.set(buildPath, next);
+  }
+
+  return { previous: previous?.hash === hash ? previous : null, next };
+}
+
+/**
+ * Write the manifest for the next run: the files and hrefs seen in this one
+ */
+export async function saveManifest(manifest: Manifest): Promise<void> {
+  const file: ManifestFile = {
+    version: MANIFEST_VERSION,
+    configKey: manifest.configKey,
+    files: Object.fromEntries([...manifest.next.files].sort(([a], [b]) => a.localeCompare(b))),
+    resolutions: Object.fromEntries(manifest.next.resolutions)
+  };
+
+  try {
+    await fs.mkdir(dirname(manifest.path), { recursive: true });
+    await fs.writeFile(manifest.path, JSON.stringify(file) + '\n', 'utf-8');
+  } catch (error) {
+    console.warn(`Warning: Could not write incremental manifest at ${manifest.path}:`, error instanceof Error ? error.message : error);
+  }
+}
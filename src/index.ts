@@ -1,23 +1,162 @@
-import type { AstroIntegration } from 'astro';
+import type { AstroConfig, AstroIntegration, AstroIntegrationLogger } from 'astro';
 import { fileURLToPath } from 'node:url';
-import { relative } from 'node:path';
-import { checkLinks } from './link-checker.js';
-import type { LinkValidatorOptions } from './types';
-import pc from 'picocolors';
+import { checkLinks, countIssueErrors } from './link-checker.js';
+import { writeReports } from './reporters.js';
+import { writeLinkGraphs } from './link-graph.js';
+import { printBrokenLinks, printBaselineSummary, printOrphanPages, printSitemapIssues, printI18nIssues } from './console-output.js';
+import { resolvePageOrigins, type PageRoute } from './page-origins.js';
+import { checkSourceLinks } from './source-check.js';
+import { createDevLinkChecker, createDevLinkReports, createDevPageMiddleware, type DevLinkReports } from './dev-links.js';
+import type { LinkValidatorOptions, AstroProjectConfig, ServerRoute } from './types';
+
+/**
+ * Link icon for the Dev Toolbar app
+ */
+const TOOLBAR_ICON = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"/></svg>';
 
 /**
  * Creates the Astro Link Validator integration
  */
 export default function linkValidator(options: LinkValidatorOptions = {}): AstroIntegration {
+  let projectConfig: AstroProjectConfig = {};
+  let projectRoot = process.cwd();
+  let routes: PageRoute[] = [];
+  let serverRoutes: ServerRoute[] | null = null;
+  let devRoutes: RegExp[] | null = null;
+  let devMode = false;
+  let devReports: DevLinkReports | null = null;
+  let watchedDirs: string[] = [];
+
   return {
     name: 'astro-link-validator',
     hooks: {
-      'astro:build:done': async ({ dir, logger }) => {
+      'astro:config:setup': async ({ command, config, logger, addDevToolbarApp, updateConfig }) => {
+        if (command === 'build' && options.checkSources) {
+          await checkSourcesBeforeBuild(config, logger, options);
+        }
+
+        devMode = command === 'dev' && options.devToolbar !== false;
+        if (!devMode) {
+          return;
+        }
+
+        addDevToolbarApp({
+          id: 'astro-link-validator',
+          name: 'Links',
+          icon: TOOLBAR_ICON,
+          entrypoint: new URL('./dev-toolbar-app.js', import.meta.url)
+        });
+
+        // Registered as a Vite plugin so the middleware runs ahead of Astro's page handler
+        updateConfig({
+          vite: {
+            plugins: [{
+              name: 'astro-link-validator:dev',
+              configureServer(server) {
+                server.middlewares.use(createDevPageMiddleware((pathname, html) => devReports?.pageServed(pathname, html)));
+                server.watcher.on('all', (_event: string, file: string) => {
+                  if (watchedDirs.some(dir => file.startsWith(dir))) {
+                    devReports?.filesChanged();
+                  }
+                });
+              }
+            }]
+          }
+        });
+      },
+      'astro:config:done': ({ config }) => {
+        projectRoot = fileURLToPath(config.root);
+        projectConfig = {
+          base: config.base,
+          site: config.site,
+          trailingSlash: config.trailingSlash,
+          redirects: config.redirects,
+          i18n: config.i18n
+        };
+
+        if (devMode) {
+          const publicDir = fileURLToPath(config.publicDir);
+          watchedDirs = [fileURLToPath(config.srcDir), publicDir];
+          devReports = createDevLinkReports(createDevLinkChecker({
+            routes: () => devRoutes ?? [],
+            publicDir,
+            base: config.base.replace(/\/+$/, ''),
+            trailingSlash: config.trailingSlash,
+            options
+          }));
+        }
+      },
+      'astro:server:setup': ({ server, toolbar, logger }) => {
+        // Astro 4 has no astro:routes:resolved, so the dev server's routes aren't known
+        if (devReports && devRoutes === null) {
+          const message = 'Links are checked on build only: checking them in dev needs the routes Astro 5 and later report';
+          logger.warn(message);
+          devReports = null;
+          toolbar.on('astro-link-validator:page', () => toolbar.send('astro-link-validator:unavailable', { message }));
+          return;
+        }
+
+        // Requesting a page again runs it back through the middleware, which checks it
+        devReports?.connect(toolbar, async (pathname) => {
+          const origin = server.resolvedUrls?.local[0];
+          if (origin) {
+            const response = await fetch(new URL(pathname, origin), { headers: { accept: 'text/html' } });
+            await response.text();
+          }
+        });
+      },
+      'astro:routes:resolved': ({ routes: resolvedRoutes }) => {
+        devRoutes = resolvedRoutes.map(route => route.patternRegex);
+        routes = resolvedRoutes
+          .filter(route => route.type === 'page')
+          .map(route => ({
+            pattern: route.pattern,
+            entrypoint: route.entrypoint,
+            patternRegex: route.patternRegex,
+            params: route.params
+          }));
+        serverRoutes = resolvedRoutes
+          .filter(route => route.isPrerendered === false && (route.type === 'page' || route.type === 'endpoint'))
+          .map(route => ({ pattern: route.pattern, patternRegex: route.patternRegex, params: route.params }));
+      },
+      'astro:build:done': async (params) => {
+        const { dir, logger, assets } = params;
         logger.info('🔗 Validating links...');
         
         try {
           const buildDir = fileURLToPath(dir);
-          const result = await checkLinks(buildDir, options);
+
+          // Astro 4 passes route data here rather than to astro:routes:resolved
+          const legacyRoutes = (params as { routes?: LegacyRouteData[] }).routes;
+          if (routes.length === 0 && legacyRoutes) {
+            routes = legacyRoutes
+              .filter(route => route.type === 'page')
+              .map(route => ({
+                pattern: route.route,
+                entrypoint: route.component,
+                patternRegex: route.pattern,
+                params: route.params,
+                distURL: route.distURL
+              }));
+          }
+          if (serverRoutes === null && legacyRoutes) {
+            serverRoutes = legacyRoutes
+              .filter(route => route.prerender === false && (route.type === 'page' || route.type === 'endpoint'))
+              .map(route => ({ pattern: route.route, patternRegex: route.pattern, params: route.params }));
+          }
+
+          const pageOrigins = await resolvePageOrigins(routes, assets, buildDir, projectRoot);
+          const result = await checkLinks(buildDir, options, { ...projectConfig, pageOrigins, serverRoutes: serverRoutes ?? [] });
+          
+          if (options.report) {
+            const reportFiles = await writeReports(result, buildDir, options.report);
+            reportFiles.forEach(file => logger.info(`📝 Wrote report to ${file}`));
+          }
+
+          if (options.linkGraph && result.linkGraph) {
+            const graphFiles = await writeLinkGraphs(result.linkGraph, options.linkGraph);
+            graphFiles.forEach(file => logger.info(`🕸️  Wrote link graph to ${file}`));
+          }
           
           // Log summary
           logger.info(`✅ Checked ${result.totalLinks} links across ${result.checkedFiles.length} files`);
@@ -31,42 +170,55 @@ export default function linkValidator(options: LinkValidatorOptions = {}): Astro
             }
           }
           
+          if (options.baselineFile) {
+            printBaselineSummary(result, options.baselineFile, options.updateBaseline === true, message => logger.info(message));
+          }
+
+          if (result.orphanPages) {
+            printOrphanPages(result.orphanPages, message => logger.warn(message));
+          }
+
+          if (result.sitemapIssues) {
+            printSitemapIssues(result.sitemapIssues, message => logger.warn(message));
+          }
+
+          if (result.i18nIssues) {
+            printI18nIssues(result.i18nIssues, message => logger.warn(message));
+          }
+          
+          // Warnings are listed but never fail the build
+          if (result.warnings && result.warnings.length > 0) {
+            logger.warn(`⚠️  Found ${result.warnings.length} warnings:`);
+            printBrokenLinks(result.warnings, buildDir);
+          }
+          
+          // Orphan pages and sitemap and i18n issues that rules made errors fail the build too
+          const issueErrors = countIssueErrors(result);
+          if (issueErrors > 0) {
+            logger.error(`❌ Found ${issueErrors} orphan page, sitemap or i18n issues marked as errors`);
+          }
+
           // Report broken links
           if (result.brokenLinks.length > 0) {
             logger.error(`❌ Found ${result.brokenLinks.length} broken links:`);
             
-            // Group broken links by file
-            const brokenLinksByFile = result.brokenLinks.reduce((acc, link) => {
-              const file = relative(buildDir, link.sourceFile);
-              if (!acc[file]) acc[file] = [];
-              acc[file].push(link);
-              return acc;
-            }, {} as Record<string, typeof result.brokenLinks>);
-            
-            // Display broken links grouped by file
-            for (const [file, links] of Object.entries(brokenLinksByFile)) {
-              console.log(`\n${pc.red('📄 ' + file)}:`);
-              
-              links.forEach(link => {
-                const typeIcon = getTypeIcon(link.type);
-                const reasonColor = getReasonColor(link.reason);
-                
-                console.log(`  ${typeIcon} ${pc.cyan(link.href)}`);
-                console.log(`    ${reasonColor(link.error)}`);
-                if (link.text && link.text !== link.href) {
-                  console.log(`    Text: "${pc.dim(link.text)}"`);
-                }
-              });
-            }
-            
+            printBrokenLinks(result.brokenLinks, buildDir);
+          } else {
+            logger.info('🎉 No broken links found!');
+          }
+
+          if (result.brokenLinks.length > 0 || issueErrors > 0) {
+            const found = [
+              ...(result.brokenLinks.length > 0 ? [`${result.brokenLinks.length} broken links`] : []),
+              ...(issueErrors > 0 ? [`${issueErrors} issues marked as errors`] : [])
+            ].join(' and ');
+
             // Fail build if configured to do so
             if (options.failOnBrokenLinks !== false) {
-              throw new Error(`Build failed: Found ${result.brokenLinks.length} broken links`);
+              throw new Error(`Build failed: Found ${found}`);
             } else {
-              logger.warn(`⚠️  Build continued with ${result.brokenLinks.length} broken links`);
+              logger.warn(`⚠️  Build continued with ${found}`);
             }
-          } else {
-            logger.info('🎉 No broken links found!');
           }
           
         } catch (error) {
@@ -88,33 +240,61 @@ export default function linkValidator(options: LinkValidatorOptions = {}): Astro
 }
 
 /**
- * Get icon for link type
+ * Check the links in the project's Markdown sources before the build starts,
+ * failing it early when `failOnBrokenLinks` is set
  */
-function getTypeIcon(type: string): string {
-  switch (type) {
-    case 'internal': return '🔗';
-    case 'external': return '🌐';
-    case 'asset': return '📦';
-    case 'anchor': return '⚓';
-    default: return '❓';
+async function checkSourcesBeforeBuild(config: AstroConfig, logger: AstroIntegrationLogger, options: LinkValidatorOptions): Promise<void> {
+  logger.info('🔗 Validating links in Markdown sources...');
+
+  const projectRoot = fileURLToPath(config.root);
+  const result = await checkSourceLinks(projectRoot, options, {
+    base: config.base,
+    trailingSlash: config.trailingSlash,
+    redirects: config.redirects,
+    srcDir: fileURLToPath(config.srcDir),
+    publicDir: fileURLToPath(config.publicDir)
+  });
+
+  logger.info(`✅ Checked ${result.totalLinks} links across ${result.checkedFiles.length} Markdown sources`);
+
+  if (result.warnings && result.warnings.length > 0) {
+    logger.warn(`⚠️  Found ${result.warnings.length} warnings:`);
+    printBrokenLinks(result.warnings, projectRoot);
   }
+
+  if (result.brokenLinks.length === 0) {
+    return;
+  }
+
+  logger.error(`❌ Found ${result.brokenLinks.length} broken links in Markdown sources:`);
+  printBrokenLinks(result.brokenLinks, projectRoot);
+
+  if (options.failOnBrokenLinks !== false) {
+    throw new Error(`Build failed: Found ${result.brokenLinks.length} broken links in Markdown sources`);
+  }
+  logger.warn(`⚠️  Build continued with ${result.brokenLinks.length} broken links in Markdown sources`);
 }
 
 /**
- * Get color function for reason
+ * The route fields Astro 4 passes to `astro:build:done`
  */
-function getReasonColor(reason: string) {
-  switch (reason) {
-    case 'not-found': return pc.red;
-    case 'network-error': return pc.magenta;
-    case 'timeout': return pc.yellow;
-    case 'invalid': return pc.gray;
-    default: return pc.red;
-  }
+interface LegacyRouteData {
+  route: string;
+  component: string;
+  pattern: RegExp;
+  params: string[];
+  type: string;
+  prerender?: boolean;
+  distURL?: URL[];
 }
 
 // Export types for users
-export type { LinkValidatorOptions, Link, BrokenLink, LinkCheckResult } from './types';
+export type { LinkValidatorOptions, ExternalDomainOptions, OrphanPageOptions, RedirectedLinkOptions, IncrementalOptions, CrawlOptions, ServerRoute, ServerRoutePath, DevToolbarOptions, Severity, SeverityRule, AstroProjectConfig, ReportFormat, ReportOptions, LinkGraphFormat, LinkGraphOptions, Link, BrokenLink, DevBrokenLink, DevPageReport, RedirectHop, BaselineEntry, LinkCheckResult, LinkGraph, LinkGraphPage, SitemapIssue, I18nConfig, I18nIssue, OrphanPage, FindingReason } from './types';
 
 // Export utilities for advanced users
-export { checkLinks, extractLinksFromHtml } from './link-checker.js';
\ No newline at end of file
+export { checkLinks, extractLinksFromHtml } from './link-checker.js';
+export { extractLinksFromCss } from './css-links.js';
+export { extractLinksFromMarkdown } from './markdown-links.js';
+export { checkSourceLinks } from './source-check.js';
+export { formatReport, writeReports } from './reporters.js';
+export { formatLinkGraph, writeLinkGraphs } from './link-graph.js';
\ No newline at end of file
@@ -1,71 +1,234 @@
 import { promises as fs, existsSync } from 'node:fs';
-import { join, resolve, dirname, relative, extname, sep } from 'node:path';
+import { join, resolve, dirname, relative, extname, sep, posix } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { availableParallelism } from 'node:os';
 import { load } from 'cheerio';
 import type { CheerioAPI } from 'cheerio';
-import type { Link, BrokenLink, LinkCheckResult, LinkValidatorOptions } from './types';
-import { loadRedirects, findRedirectRule, applyRedirectRule, type RedirectRule } from './redirects.js';
+import type { Link, BrokenLink, LinkCheckResult, LinkValidatorOptions, AstroProjectConfig, CrawlOptions, LinkGraphPage, OrphanPageOptions, RedirectHop, RedirectedLinkOptions, Severity, SeverityRule, FindingReason } from './types';
+import { loadRedirects, parseAstroRedirects, findRedirectRule, applyRedirectRule, type RedirectRule } from './redirects.js';
+import { loadAnchorIds, readAnchorIds, hasAnchor, findClosestAnchors, type AnchorCache } from './anchors.js';
+import { loadBaseline, writeBaseline, applyBaseline } from './baseline.js';
+import { toSourcePath } from './reporters.js';
+import { createExternalScheduler, type ExternalScheduler } from './external-links.js';
+import { loadExternalCache, saveExternalCache } from './external-cache.js';
+import { extractLinksFromCss } from './css-links.js';
+import { buildLinkGraph, findOrphanPages, pageUrl } from './link-graph.js';
+import { loadSitemap, sitemapUrlToPath, validateSitemap } from './sitemap.js';
+import { resolveBuildFileStrictCase, type CaseResolvedFile, type DirectoryCache } from './path-case.js';
+import { indexBuildDirectory, resolveBuildFile, type BuildIndex } from './build-index.js';
+import { createParsePool, type FileParser, type ParsePool } from './parse-pool.js';
+import { crawlSite, DEFAULT_MAX_PAGES } from './crawl.js';
+import { validateI18n, type I18nPage } from './i18n.js';
+import { resolveServerRoutes, matchServerRoute, describeParams, type ResolvedServerRoute, type ServerRouteMatch } from './server-routes.js';
+import { loadManifest, saveManifest, hashConfig, hashBuildFile, getFileEntry, toBuildPath, type Manifest, type StoredResolution } from './incremental.js';
 
 /**
  * Maximum number of redirects to follow before treating a link as a redirect loop
  */
-const MAX_REDIRECT_DEPTH = 10;
+export const MAX_REDIRECT_DEPTH = 10;
 
 /**
- * Extract links from HTML content using Cheerio
+ * Source position recorded by the HTML parser. parse5 also records per-attribute
+ * positions, which domhandler's types leave out.
+ */
+interface SourcePosition {
+  startLine: number;
+  startCol: number;
+}
+
+interface LocatedNode {
+  sourceCodeLocation?: (SourcePosition & {
+    attrs?: Record<string, SourcePosition>;
+    startTag?: { endLine: number; endCol: number };
+  }) | null;
+}
+
+/**
+ * Get the line and column an attribute was written at, falling back to the
+ * element's start tag when the attribute location is unavailable
+ */
+function getLocation(element: LocatedNode, attribute: string): { line?: number; column?: number } {
+  const location = element.sourceCodeLocation;
+  const position = location?.attrs?.[attribute] ?? location;
+  return position ? { line: position.startLine, column: position.startCol } : {};
+}
+
+/**
+ * Schemes that never point at a checkable resource
+ */
+const IGNORED_SCHEMES = ['javascript:', 'mailto:', 'tel:', 'data:', 'blob:'];
+
+/**
+ * Namespace of SVG `xlink:*` attributes
+ */
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+/**
+ * Whether an href is relative to the document URL, and so affected by `<base href>`
+ */
+function isDocumentRelative(href: string): boolean {
+  return !href.startsWith('/') && !/^[a-z][a-z\d+.-]*:/i.test(href);
+}
+
+/**
+ * Resolve a document-relative href against a `<base href>`. An absolute base
+ * gives an absolute URL; a root-relative or relative base gives a path of the
+ * same kind, so the link is still checked against the build.
+ */
+function resolveAgainstBase(href: string, baseHref: string): string {
+  if (/^([a-z][a-z\d+.-]*:)?\/\//i.test(baseHref)) {
+    try {
+      return new URL(href, new URL(baseHref, 'https://base.invalid')).href;
+    } catch {
+      return href;
+    }
+  }
+
+  // Fragment- and query-only links keep the base's file name, not just its directory
+  if (href.startsWith('#') || href.startsWith('?')) {
+    const basePath = baseHref.split('#')[0];
+    return (href.startsWith('#') ? basePath : basePath.split('?')[0]) + href;
+  }
+
+  const baseDir = baseHref.slice(0, baseHref.lastIndexOf('/') + 1);
+  if (baseDir.startsWith('/')) {
+    const url = new URL(href, new URL(baseDir, 'https://base.invalid'));
+    return decodeURI(url.pathname) + url.search + url.hash;
+  }
+
+  return posix.normalize(baseDir + href);
+}
+
+/**
+ * Get the target of a `<meta http-equiv="refresh" content="5; url=/new">` tag
+ */
+function parseMetaRefresh(content: string): string | null {
+  const match = content.match(/^\s*\d*(?:\.\d*)?\s*[;,]\s*(?:url\s*=\s*)?(['"]?)(.+?)\1\s*$/i);
+  return match ? match[2] : null;
+}
+
+/**
+ * Extract links from HTML content using Cheerio. Each link records the element
+ * and attribute it was found in, and relative links are resolved against the
+ * page's `<base href>` when it has one.
  */
 export function extractLinksFromHtml(html: string, sourceFile: string): Link[] {
-  const $: CheerioAPI = load(html);
+  const $: CheerioAPI = load(html, { sourceCodeLocationInfo: true });
   const links: Link[] = [];
+  const baseHref = $('base[href]').first().attr('href')?.trim();
+
+  const addLink = (element: LocatedNode, attribute: string, href: string | undefined, text: string, type: Link['type'] | null, source: string) => {
+    href = href?.trim();
+    if (!href || IGNORED_SCHEMES.some(scheme => href!.toLowerCase().startsWith(scheme))) {
+      return;
+    }
+
+    if (baseHref && isDocumentRelative(href)) {
+      href = resolveAgainstBase(href, baseHref);
+    }
+
+    links.push({
+      href,
+      text: text || href,
+      ...getLocation(element, attribute),
+      sourceFile,
+      type: type ?? categorizeLink(href),
+      source
+    });
+  };
 
   // Extract href links (a, link tags)
   $('a[href], link[href]').each((_, element) => {
-    const href = $(element).attr('href');
-    const text = $(element).text().trim() || $(element).attr('title') || href || '';
-
-    if (href && !href.startsWith('javascript:') && !href.startsWith('mailto:') && !href.startsWith('tel:')) {
-      links.push({
-        href,
-        text,
-        sourceFile,
-        type: categorizeLink(href),
-      });
-    }
+    const $element = $(element);
+    const href = $element.attr('href');
+    const text = $element.text().trim() || $element.attr('title') || '';
+    const hreflang = $element.attr('hreflang');
+    const rel = $element.attr('rel');
+
+    const source = element.tagName === 'a'
+      ? 'a[href]'
+      : hreflang ? `link[hreflang=${hreflang}]` : rel ? `link[rel=${rel}]` : 'link[href]';
+
+    addLink(element, 'href', href, text, null, source);
   });
 
   // Extract src links (img, script, iframe, source, etc.)
-  $('img[src], script[src], iframe[src], source[src], video[src], audio[src]').each((_, element) => {
-    const src = $(element).attr('src');
-    const alt = $(element).attr('alt') || $(element).attr('title') || src || '';
-
-    if (src && !src.startsWith('data:') && !src.startsWith('blob:')) {
-      links.push({
-        href: src,
-        text: alt,
-        sourceFile,
-        type: 'asset',
-      });
-    }
+  $('img[src], script[src], iframe[src], source[src], video[src], audio[src], embed[src], track[src]').each((_, element) => {
+    const alt = $(element).attr('alt') || $(element).attr('title') || '';
+    addLink(element, 'src', $(element).attr('src'), alt, 'asset', `${element.tagName}[src]`);
   });
 
   // Extract srcset links
   $('img[srcset], source[srcset]').each((_, element) => {
     const srcset = $(element).attr('srcset');
     if (srcset) {
-      const srcs = parseSrcset(srcset);
-      srcs.forEach(src => {
-        if (!src.startsWith('data:') && !src.startsWith('blob:')) {
-          links.push({
-            href: src,
-            text: $(element).attr('alt') || src,
-            sourceFile,
-            type: 'asset',
-          });
-        }
+      parseSrcset(srcset).forEach(src => {
+        addLink(element, 'srcset', src, $(element).attr('alt') || '', 'asset', `${element.tagName}[srcset]`);
       });
     }
   });
 
+  // Video posters and embedded objects
+  $('video[poster]').each((_, element) => {
+    addLink(element, 'poster', $(element).attr('poster'), $(element).attr('title') || '', 'asset', 'video[poster]');
+  });
+
+  $('object[data]').each((_, element) => {
+    addLink(element, 'data', $(element).attr('data'), $(element).attr('title') || '', 'asset', 'object[data]');
+  });
+
+  // Form submission targets. An empty action submits to the page itself.
+  $('form[action]').each((_, element) => {
+    addLink(element, 'action', $(element).attr('action'), $(element).attr('name') || '', null, 'form[action]');
+  });
+
+  // SVG references, e.g. sprite icons via <use href="/sprite.svg#icon">. The
+  // parser stores `xlink:href` as `href` in the xlink namespace.
+  $('use[href], image[href]').each((_, element) => {
+    const attribute = element['x-attribsNamespace']?.href === XLINK_NAMESPACE ? 'xlink:href' : 'href';
+    addLink(element, attribute, $(element).attr('href'), '', null, `${element.tagName}[${attribute}]`);
+  });
+
+  // Social preview images
+  $('meta[property="og:image"], meta[property="og:image:url"], meta[name="twitter:image"], meta[property="twitter:image"]').each((_, element) => {
+    const name = $(element).attr('property') || $(element).attr('name');
+    addLink(element, 'content', $(element).attr('content'), '', null, `meta[${name}]`);
+  });
+
+  // Meta refresh redirects
+  $('meta[http-equiv]').each((_, element) => {
+    if ($(element).attr('http-equiv')?.toLowerCase() !== 'refresh') {
+      return;
+    }
+    const target = parseMetaRefresh($(element).attr('content') ?? '');
+    addLink(element, 'content', target ?? undefined, '', null, 'meta[refresh]');
+  });
+
+  // CSS references in inline styles and <style> blocks, which resolve against the page
+  // (except fragment-only ones like `url(#gradient)`, which CSS keeps on the page)
+  const addCssLinks = (cssLinks: Link[], prefix: string) => {
+    for (const link of cssLinks) {
+      if (baseHref && isDocumentRelative(link.href) && !link.href.startsWith('#')) {
+        link.href = resolveAgainstBase(link.href, baseHref);
+        link.type = categorizeLink(link.href) === 'external' ? 'external' : 'asset';
+      }
+      links.push({ ...link, source: `${prefix} ${link.source}` });
+    }
+  };
+
+  $('[style]').each((_, element) => {
+    const location = getLocation(element, 'style');
+    const cssLinks = extractLinksFromCss($(element).attr('style') ?? '', sourceFile)
+      .map(link => ({ ...link, ...location }));
+    addCssLinks(cssLinks, `${element.tagName}[style]`);
+  });
+
+  $('style').each((_, element) => {
+    const startTag = (element as LocatedNode).sourceCodeLocation?.startTag;
+    const start = startTag ? { line: startTag.endLine, column: startTag.endCol } : undefined;
+    addCssLinks(extractLinksFromCss($(element).text(), sourceFile, start), 'style');
+  });
+
   return links;
 }
 
@@ -135,7 +298,7 @@ function wildcardToRegExp(pattern: string): RegExp {
  * Patterns containing `*` match as wildcards against the whole href; patterns
  * without one keep the original substring behaviour.
  */
-function matchesExcludePattern(href: string, pattern: string): boolean {
+export function matchesExcludePattern(href: string, pattern: string): boolean {
   if (!pattern.includes('*')) {
     return href.includes(pattern);
   }
@@ -161,30 +324,363 @@ function validatePath(filePath: string, buildDir: string): boolean {
   return resolved.startsWith(basePath);
 }
 
+/**
+ * State shared by every internal link check in a single checkLinks run
+ */
+interface InternalCheckContext {
+  buildDir: string;
+  pageOrigins: Record<string, string>;
+  redirects: RedirectRule[];
+  anchors: AnchorCache;
+  /**
+   * Pages each page links to, by absolute file path, for the link graph
+   */
+  pageLinks: Map<string, Set<string>>;
+  /**
+   * Site base path without a trailing slash ('' when the site is served from the root)
+   */
+  base: string;
+  trailingSlash: 'always' | 'never' | 'ignore';
+  /**
+   * Origins whose absolute URLs point into this site (e.g. 'https://example.com')
+   */
+  siteOrigins: string[];
+  /**
+   * Directory listings for strict-case path lookups, or null when paths are
+   * checked with the file system's own case rules
+   */
+  directories: DirectoryCache | null;
+  /**
+   * Every file and directory in the build, for existence and index.html lookups
+   */
+  buildIndex: BuildIndex;
+  /**
+   * Routes rendered on demand, which links can point to without a build file
+   */
+  serverRoutes: ResolvedServerRoute[];
+  /**
+   * Resolutions of the internal hrefs seen so far, so each distinct href is resolved once
+   */
+  resolutions: Map<string, Promise<InternalResolution>>;
+  /**
+   * Reads links and anchor ids from build files, on worker threads when configured
+   */
+  parser: FileParser;
+  /**
+   * Results of the previous run to reuse, and this run's to record, when `incremental` is set
+   */
+  manifest: Manifest | null;
+}
+
+/**
+ * Everything resolving an internal href depended on, for incremental runs
+ */
+interface ResolutionTrace {
+  /**
+   * Build file the href resolved to, even when its fragment or trailing slash is reported
+   */
+  targetFile: string | null;
+  lookups: Record<string, string>;
+  anchorFiles: string[];
+}
+
+/**
+ * Outcome of resolving an internal href, shared by every link with the same href
+ */
+interface InternalResolution {
+  broken: BrokenLink | null;
+  /**
+   * Build file the href resolved to, even when its fragment or trailing slash is reported
+   */
+  targetFile: string | null;
+  hops: RedirectHop[];
+}
+
+/**
+ * Split an href into its path and fragment, dropping any query string
+ */
+function splitHref(href: string): { path: string; fragment: string | null } {
+  const hashIndex = href.indexOf('#');
+  const path = (hashIndex === -1 ? href : href.slice(0, hashIndex)).split('?')[0];
+  const fragment = hashIndex === -1 ? null : href.slice(hashIndex + 1);
+  return { path, fragment };
+}
+
+/**
+ * Find the file a build path is served from, honouring strict-case lookups.
+ * A file whose name only matches with different case doesn't count.
+ */
+async function findBuildFile(filePath: string, context: InternalCheckContext): Promise<string | null> {
+  if (!context.directories) {
+    return resolveBuildFile(filePath, context.buildIndex);
+  }
+
+  const resolved = await resolveBuildFileStrictCase(filePath, resolve(context.buildDir), context.directories);
+  return resolved && !resolved.caseMismatch ? resolved.file : null;
+}
+
+/**
+ * Check a page link against the configured trailing slash policy. Only
+ * extensionless paths are pages; files such as `/feed.xml` are left alone.
+ */
+export function checkTrailingSlash(
+  link: Link,
+  path: string,
+  context: Pick<InternalCheckContext, 'trailingSlash' | 'base'>
+): BrokenLink | null {
+  const { trailingSlash, base } = context;
+
+  if (trailingSlash === 'ignore' || link.type !== 'internal' || !path || extname(path)) {
+    return null;
+  }
+
+  // The site root is always written with its slash, as are `./` and `../`
+  if (path === '/' || path === base + '/' || /^[./]+$/.test(path)) {
+    return null;
+  }
+
+  const hasSlash = path.endsWith('/');
+
+  if (trailingSlash === 'always' && !hasSlash) {
+    return {
+      ...link,
+      error: `Missing trailing slash: expected ${path}/ (trailingSlash: 'always')`,
+      reason: 'trailing-slash'
+    };
+  }
+
+  if (trailingSlash === 'never' && hasSlash) {
+    return {
+      ...link,
+      error: `Unexpected trailing slash: expected ${path.replace(/\/+$/, '')} (trailingSlash: 'never')`,
+      reason: 'trailing-slash'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check that a fragment matches an id or named anchor in the target HTML file.
+ * Non-HTML targets (PDFs, images, ...) are not inspected.
+ */
+async function checkFragment(
+  link: Link,
+  fragment: string,
+  targetFile: string,
+  context: InternalCheckContext,
+  trace?: ResolutionTrace
+): Promise<BrokenLink | null> {
+  if (extname(targetFile).toLowerCase() !== '.html') {
+    return null;
+  }
+
+  trace?.anchorFiles.push(targetFile);
+
+  const ids = await loadAnchorIds(targetFile, context.anchors, file => context.parser.anchorIds(file));
+  if (hasAnchor(fragment, ids)) {
+    return null;
+  }
+
+  const suggestions = findClosestAnchors(fragment, ids);
+  const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.map(id => '#' + id).join(', ')}?)` : '';
+
+  return {
+    ...link,
+    error: `Anchor #${fragment} not found in ${relative(context.buildDir, targetFile)}${hint}`,
+    reason: 'missing-anchor',
+    suggestions
+  };
+}
+
 /**
  * Check if an internal link/asset exists in the build directory
- * Also follows redirects to avoid false positives for redirected URLs
+ * Also follows redirects to avoid false positives for redirected URLs, and
+ * checks any fragment against the ids of the page it lands on.
+ * Each redirect rule followed is appended to `hops`. Links with the same type
+ * and href share one resolution per run.
+ */
+async function checkInternalLink(link: Link, context: InternalCheckContext, hops: RedirectHop[] = []): Promise<BrokenLink | null> {
+  // Only root-relative hrefs mean the same thing on every page
+  const key = link.href.startsWith('/')
+    ? `${link.type}\0${link.href}`
+    : `${link.type}\0${toBuildPath(link.sourceFile, context.buildDir)}\0${link.href}`;
+
+  let resolution = context.resolutions.get(key);
+  if (!resolution) {
+    resolution = resolveInternalLink(link, key, context);
+    context.resolutions.set(key, resolution);
+  }
+
+  const { broken, targetFile, hops: followed } = await resolution;
+  hops.push(...followed);
+
+  if (targetFile) {
+    recordPageLink(link.sourceFile, targetFile, context);
+  }
+
+  if (!broken) {
+    return null;
+  }
+
+  // The shared finding describes the first link seen with this href
+  const { error, reason, suggestions } = broken;
+  return suggestions ? { ...link, error, reason, suggestions } : { ...link, error, reason };
+}
+
+/**
+ * Resolve an internal link against the build, following redirects and checking
+ * its trailing slash and fragment. Incremental runs reuse the previous run's
+ * result while every build path it looked at is unchanged.
+ */
+async function resolveInternalLink(link: Link, key: string, context: InternalCheckContext): Promise<InternalResolution> {
+  const { manifest, buildDir } = context;
+
+  const stored = manifest?.previous.resolutions.get(key);
+  if (manifest && stored && await isResolutionCurrent(stored, manifest, context)) {
+    manifest.reused.resolutions++;
+    manifest.next.resolutions.set(key, stored);
+    return {
+      broken: stored.broken && { ...link, ...stored.broken },
+      targetFile: stored.targetFile === null ? null : join(resolve(buildDir), stored.targetFile),
+      hops: stored.hops
+    };
+  }
+
+  const hops: RedirectHop[] = [];
+  const trace: ResolutionTrace = { targetFile: null, lookups: {}, anchorFiles: [] };
+  const broken = await findInternalLinkProblem(link, context, hops, trace);
+
+  if (manifest) {
+    const anchorFiles = await Promise.all(trace.anchorFiles.map(async file =>
+      [toBuildPath(file, buildDir), await hashBuildFile(manifest, file)] as const
+    ));
+    manifest.next.resolutions.set(key, {
+      broken: broken && (broken.suggestions
+        ? { error: broken.error, reason: broken.reason, suggestions: broken.suggestions }
+        : { error: broken.error, reason: broken.reason }),
+      targetFile: trace.targetFile === null ? null : toBuildPath(trace.targetFile, buildDir),
+      hops,
+      lookups: trace.lookups,
+      anchorFiles: Object.fromEntries(anchorFiles)
+    });
+  }
+
+  return { broken, targetFile: trace.targetFile, hops };
+}
+
+/**
+ * What each kind of build path lookup returns: `served` is the file a path is
+ * served from, `resolved` ignores strict case, `strict` is the strict-case match
+ */
+interface BuildLookupResults {
+  served: string | null;
+  resolved: string | null;
+  strict: CaseResolvedFile | null;
+}
+
+/**
+ * Look up a build path
+ */
+async function lookupBuildPath<K extends keyof BuildLookupResults>(
+  kind: K,
+  filePath: string,
+  context: InternalCheckContext
+): Promise<BuildLookupResults[K]> {
+  switch (kind) {
+    case 'served':
+      return await findBuildFile(filePath, context) as BuildLookupResults[K];
+    case 'resolved':
+      return await resolveBuildFile(filePath, context.buildIndex) as BuildLookupResults[K];
+    default:
+      return await resolveBuildFileStrictCase(filePath, resolve(context.buildDir), context.directories!) as BuildLookupResults[K];
+  }
+}
+
+/**
+ * Describe the result of a build path lookup in a form that can be stored and compared
+ */
+function describeLookup(result: string | CaseResolvedFile | null, buildDir: string): string {
+  if (result === null || typeof result === 'string') {
+    return JSON.stringify(result === null ? null : toBuildPath(result, buildDir));
+  }
+
+  return JSON.stringify([toBuildPath(result.file, buildDir), result.correctedPath, result.caseMismatch]);
+}
+
+/**
+ * Look up a build path, recording the result in the trace
  */
-async function checkInternalLink(link: Link, buildDir: string, redirects: RedirectRule[]): Promise<BrokenLink | null> {
+async function tracedLookup<K extends keyof BuildLookupResults>(
+  kind: K,
+  filePath: string,
+  context: InternalCheckContext,
+  trace: ResolutionTrace
+): Promise<BuildLookupResults[K]> {
+  const result = await lookupBuildPath(kind, filePath, context);
+  trace.lookups[`${kind}:${toBuildPath(filePath, context.buildDir)}`] = describeLookup(result, context.buildDir);
+  return result;
+}
+
+/**
+ * Check that every lookup a stored resolution made still gives the same result,
+ * and every page whose ids it checked is unchanged
+ */
+async function isResolutionCurrent(stored: StoredResolution, manifest: Manifest, context: InternalCheckContext): Promise<boolean> {
+  for (const [lookup, outcome] of Object.entries(stored.lookups)) {
+    const separator = lookup.indexOf(':');
+    const kind = lookup.slice(0, separator) as keyof BuildLookupResults;
+    const result = await lookupBuildPath(kind, join(context.buildDir, lookup.slice(separator + 1)), context);
+    if (describeLookup(result, context.buildDir) !== outcome) {
+      return false;
+    }
+  }
+
+  for (const [buildPath, hash] of Object.entries(stored.anchorFiles)) {
+    try {
+      if (await hashBuildFile(manifest, join(context.buildDir, buildPath)) !== hash) {
+        return false;
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find what is wrong with an internal link, or null when it resolves. The
+ * redirect rules followed go in `hops`, and the file it lands on and the build
+ * paths looked at go in `trace`.
+ */
+async function findInternalLinkProblem(
+  link: Link,
+  context: InternalCheckContext,
+  hops: RedirectHop[],
+  trace: ResolutionTrace
+): Promise<BrokenLink | null> {
   const { href } = link;
+  const { buildDir, redirects } = context;
 
   // Skip external URLs - they should be handled by checkExternalLink
   if (href.startsWith('http://') || href.startsWith('https://') || href.startsWith('//')) {
     return null;
   }
 
-  // Handle anchor links - they're valid if the file exists
+  // Anchor-only links point into the page they appear on
   if (href.startsWith('#')) {
-    return null; // Skip anchor-only links for now
+    return checkFragment(link, href.slice(1), link.sourceFile, context, trace);
   }
 
   // Remove hash fragments and query parameters for file checking
-  let cleanHref = href.split('#')[0].split('?')[0];
+  let { path: cleanHref, fragment } = splitHref(href);
+  const linkPath = cleanHref;
 
   // Follow any redirect rules before touching the file system. Rules can chain
   // (and can cycle), so cap how many hops we take.
   if (redirects.length > 0) {
-    let hops = 0;
+    let followed = 0;
 
     while (cleanHref.startsWith('/')) {
       const redirectRule = findRedirectRule(cleanHref, redirects);
@@ -192,7 +688,12 @@ async function checkInternalLink(link: Link, buildDir: string, redirects: Redire
         break;
       }
 
-      if (++hops > MAX_REDIRECT_DEPTH) {
+      // Unforced rules are shadowed by a file that already exists at the path
+      if (redirectRule.force === false && await tracedLookup('served', join(buildDir, cleanHref.substring(1)), context, trace)) {
+        break;
+      }
+
+      if (++followed > MAX_REDIRECT_DEPTH) {
         return {
           ...link,
           error: `Redirect loop: more than ${MAX_REDIRECT_DEPTH} redirects followed from ${href}`,
@@ -201,20 +702,39 @@ async function checkInternalLink(link: Link, buildDir: string, redirects: Redire
       }
 
       const redirectTarget = applyRedirectRule(cleanHref, redirectRule);
+      hops.push({ from: cleanHref, to: redirectTarget, status: redirectRule.status });
 
       // Redirect target is external, consider the original link valid
       if (!redirectTarget.startsWith('/')) {
         return null;
       }
 
-      cleanHref = redirectTarget.split('#')[0].split('?')[0];
+      // A fragment on the redirect target replaces the one on the link, as it does in browsers
+      const target = splitHref(redirectTarget);
+      cleanHref = target.path;
+      fragment = target.fragment ?? fragment;
     }
   }
 
   // Convert to file system path
   let filePath: string;
 
-  if (cleanHref.startsWith('/')) {
+  if (cleanHref === '') {
+    // Query- or fragment-only link to the current page
+    filePath = link.sourceFile;
+  } else if (cleanHref.startsWith('/')) {
+    // Root-relative paths must sit under the site base, which is not part of the build output
+    if (context.base) {
+      if (cleanHref !== context.base && !cleanHref.startsWith(context.base + '/')) {
+        return {
+          ...link,
+          error: `Link is outside the site base ${context.base}/`,
+          reason: 'not-found'
+        };
+      }
+      cleanHref = cleanHref.substring(context.base.length) || '/';
+    }
+
     // Root-relative path
     filePath = join(buildDir, cleanHref.substring(1));
   } else {
@@ -235,164 +755,622 @@ async function checkInternalLink(link: Link, buildDir: string, redirects: Redire
     };
   }
 
-  // Check if file exists
-  if (existsSync(filePath)) {
-    return null; // File exists, link is valid
-  }
+  let targetFile: string | null;
 
-  // For HTML files, try with .html extension and index.html
-  if (!extname(filePath)) {
-    // Try with .html extension
-    if (existsSync(filePath + '.html')) {
-      return null;
+  if (context.directories) {
+    const resolved = await tracedLookup('strict', filePath, context, trace);
+    if (resolved?.caseMismatch) {
+      const trailing = resolved.correctedPath && linkPath.endsWith('/') ? '/' : '';
+      return {
+        ...link,
+        error: `Path case does not match the build, which has ${context.base}/${resolved.correctedPath}${trailing}`,
+        reason: 'case-mismatch'
+      };
     }
+    targetFile = resolved?.file ?? null;
+  } else {
+    targetFile = await tracedLookup('resolved', filePath, context, trace);
+  }
 
-    // Try as directory with index.html
-    if (existsSync(join(filePath, 'index.html'))) {
-      return null;
+  if (!targetFile) {
+    // Pages rendered on demand have no file, only a route
+    const serverRoute = findServerRoute(filePath, context);
+    if (serverRoute) {
+      return checkServerRouteLink(link, linkPath, serverRoute, context);
     }
+
+    return {
+      ...link,
+      error: `File not found: ${relative(buildDir, filePath)}`,
+      reason: 'not-found'
+    };
   }
 
-  // For directories, try index.html
+  trace.targetFile = targetFile;
+
+  const trailingSlashError = checkTrailingSlash(link, linkPath, context);
+  if (trailingSlashError) {
+    return trailingSlashError;
+  }
+
+  if (fragment !== null) {
+    return checkFragment(link, fragment, targetFile, context, trace);
+  }
+
+  return null; // File exists, link is valid
+}
+
+/**
+ * Find the route rendered on demand that serves a build path with no file
+ */
+function findServerRoute(filePath: string, context: InternalCheckContext): ServerRouteMatch | null {
+  if (context.serverRoutes.length === 0) {
+    return null;
+  }
+
+  const path = '/' + relative(context.buildDir, filePath).split(sep).join('/');
+  let decodedPath = path;
   try {
-    const stats = await fs.stat(filePath);
-    if (stats.isDirectory() && existsSync(join(filePath, 'index.html'))) {
-      return null;
-    }
+    decodedPath = decodeURI(path);
+  } catch {
+    // Match the path as written
+  }
+
+  return matchServerRoute(decodedPath, context.serverRoutes) ?? matchServerRoute(path, context.serverRoutes);
+}
+
+/**
+ * Check a link to a route rendered on demand. There is no HTML to check its
+ * fragment against, so only the params and the trailing slash are checked.
+ */
+function checkServerRouteLink(link: Link, linkPath: string, match: ServerRouteMatch, context: InternalCheckContext): BrokenLink | null {
+  if (!match.exists) {
+    return {
+      ...link,
+      error: `Route ${match.route.pattern} has no page for ${describeParams(match)} in serverRoutePaths`,
+      reason: 'not-found'
+    };
+  }
+
+  return checkTrailingSlash(link, linkPath, context);
+}
+
+/**
+ * Get the root-relative path of an absolute URL on one of the site's own origins,
+ * or null for any other URL. Protocol-relative URLs match on host alone.
+ */
+export function toSelfPath(href: string, siteOrigins: string[]): string | null {
+  if (siteOrigins.length === 0) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(href, siteOrigins[0]);
   } catch {
-    // File doesn't exist, continue to error return
+    return null;
+  }
+
+  const matches = href.startsWith('//')
+    ? siteOrigins.some(origin => new URL(origin).host === url.host)
+    : siteOrigins.includes(url.origin);
+
+  return matches ? url.pathname + url.search + url.hash : null;
+}
+
+/**
+ * Check an absolute URL on the site's own origin against the build, as the
+ * root-relative path it points to. Problems are reported with the href as written.
+ */
+async function checkSelfLink(link: Link, path: string, context: InternalCheckContext, hops: RedirectHop[]): Promise<BrokenLink | null> {
+  const broken = await checkInternalLink({ ...link, href: path, type: categorizeLink(path) }, context, hops);
+  return broken ? { ...broken, href: link.href } : null;
+}
+
+/**
+ * Statuses of temporary redirects
+ */
+const TEMPORARY_REDIRECT_STATUSES = [302, 303, 307];
+
+/**
+ * Describe a valid link that reached its target through redirect rules. It is
+ * an error when the chain is longer than `maxHops` or, with `failOnTemporary`,
+ * includes a temporary redirect; otherwise a warning.
+ */
+export function describeRedirectedLink(
+  link: Link,
+  hops: RedirectHop[],
+  options: RedirectedLinkOptions
+): { finding: BrokenLink; isError: boolean } {
+  const target = hops[hops.length - 1].to;
+  const chain = hops.map(hop => `${hop.from} → ${hop.status}`).join(' → ') + ` → ${target}`;
+  const tooLong = options.maxHops !== undefined && hops.length > options.maxHops;
+  const temporary = options.failOnTemporary === true && hops.some(hop => TEMPORARY_REDIRECT_STATUSES.includes(hop.status));
+
+  let error = `Redirects to ${target} (${hops.length} ${hops.length === 1 ? 'hop' : 'hops'}: ${chain})`;
+  if (tooLong) {
+    error += `, more than the ${options.maxHops} allowed`;
+  } else if (temporary) {
+    error += ', through a temporary redirect';
   }
 
   return {
-    ...link,
-    error: `File not found: ${relative(buildDir, filePath)}`,
-    reason: 'not-found'
+    finding: { ...link, error, reason: 'redirected', redirectChain: hops },
+    isError: tooLong || temporary
   };
 }
 
 /**
- * Check if an external link is accessible
+ * What severity rules match a finding by. Findings other than links have no
+ * `type`, and only some have an `href`; rules that set those don't match them.
  */
-async function checkExternalLink(link: Link, timeout: number = 5000): Promise<BrokenLink | null> {
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    const response = await fetch(link.href, {
-      method: 'HEAD',
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; astro-link-checker/1.0.0)'
-      }
-    });
+interface RuleSubject {
+  type?: Link['type'];
+  reason: FindingReason;
+  href?: string;
+  /**
+   * Page path relative to the build directory, or the page URL when crawling
+   */
+  sourceFile?: string;
+}
 
-    clearTimeout(timeoutId);
+/**
+ * Check whether a severity rule applies to a finding. Every condition the rule
+ * sets must match.
+ */
+function matchesSeverityRule(subject: RuleSubject, rule: SeverityRule): boolean {
+  if (rule.type !== undefined && (subject.type === undefined || ![rule.type].flat().includes(subject.type))) {
+    return false;
+  }
 
-    if (response.ok) {
-      return null; // Link is valid
-    }
+  if (rule.reason !== undefined && ![rule.reason].flat().includes(subject.reason)) {
+    return false;
+  }
 
-    return {
-      ...link,
-      error: `HTTP ${response.status}: ${response.statusText}`,
-      reason: 'network-error'
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return {
-          ...link,
-          error: `Request timeout after ${timeout}ms`,
-          reason: 'timeout'
-        };
-      }
+  if (rule.href !== undefined && (subject.href === undefined || !matchesExcludePattern(subject.href, rule.href))) {
+    return false;
+  }
 
-      return {
-        ...link,
-        error: error.message,
-        reason: 'network-error'
-      };
-    }
+  if (rule.sourceFile !== undefined && (subject.sourceFile === undefined || !matchesIncludePattern(subject.sourceFile, rule.sourceFile))) {
+    return false;
+  }
 
-    return {
-      ...link,
-      error: 'Unknown error',
-      reason: 'network-error'
-    };
+  return true;
+}
+
+/**
+ * Severity of a finding: the last matching rule overrides the default
+ */
+function findSeverity(subject: RuleSubject, rules: SeverityRule[], defaultSeverity: Severity): Severity {
+  let severity = defaultSeverity;
+  for (const rule of rules) {
+    if (matchesSeverityRule(subject, rule)) {
+      severity = rule.severity;
+    }
   }
+  return severity;
 }
 
 /**
- * Get all files in a directory recursively that match the include patterns
+ * Give each finding its severity and sort it into errors and warnings. The last
+ * matching rule overrides the default, and findings turned `off` are dropped.
  */
-async function getHtmlFiles(dir: string, include: string[] = ['**/*.html']): Promise<string[]> {
-  const files: string[] = [];
+export function applySeverityRules(
+  findings: { brokenLinks: BrokenLink[]; warnings: BrokenLink[] },
+  rules: SeverityRule[],
+  buildDir: string
+): { brokenLinks: BrokenLink[]; warnings: BrokenLink[] } {
+  const sorted = { brokenLinks: [] as BrokenLink[], warnings: [] as BrokenLink[] };
+
+  const classify = (link: BrokenLink, defaultSeverity: Severity) => {
+    const severity = findSeverity({ ...link, sourceFile: toSourcePath(link.sourceFile, buildDir) }, rules, defaultSeverity);
+
+    if (severity === 'error') {
+      sorted.brokenLinks.push({ ...link, severity });
+    } else if (severity === 'warn') {
+      sorted.warnings.push({ ...link, severity });
+    }
+  };
 
-  async function walk(currentDir: string): Promise<void> {
-    const entries = await fs.readdir(currentDir, { withFileTypes: true });
+  findings.brokenLinks.forEach(link => classify(link, 'error'));
+  findings.warnings.forEach(link => classify(link, 'warn'));
 
-    for (const entry of entries) {
-      const fullPath = join(currentDir, entry.name);
+  return sorted;
+}
 
-      if (entry.isDirectory()) {
-        await walk(fullPath);
-      } else if (entry.isFile()) {
-        // Patterns are always written with posix separators
-        const relativePath = relative(dir, fullPath).split(sep).join('/');
+/**
+ * Give orphan pages, sitemap issues or i18n issues their severity. They start
+ * out as `warn`; rules match them by `reason`, by the URL they're about as `href`
+ * and by their page as `sourceFile`. Issues turned `off` are dropped.
+ */
+function applyIssueSeverity<T extends { reason: FindingReason; severity?: Exclude<Severity, 'off'> }>(
+  issues: T[],
+  rules: SeverityRule[],
+  subject: (issue: T) => { href?: string; sourceFile?: string }
+): T[] {
+  return issues.flatMap((issue) => {
+    const severity = findSeverity({ reason: issue.reason, ...subject(issue) }, rules, 'warn');
+    return severity === 'off' ? [] : [{ ...issue, severity }];
+  });
+}
 
-        if (include.some(pattern => matchesIncludePattern(relativePath, pattern))) {
-          files.push(fullPath);
-        }
+/**
+ * Count the orphan pages, sitemap issues and i18n issues that rules made errors,
+ * which fail the build along with broken links
+ */
+export function countIssueErrors(result: LinkCheckResult): number {
+  return [...result.orphanPages ?? [], ...result.sitemapIssues ?? [], ...result.i18nIssues ?? []]
+    .filter(issue => issue.severity === 'error')
+    .length;
+}
+
+/**
+ * Record a link from one page to another for the link graph
+ */
+function recordPageLink(sourceFile: string, targetFile: string, context: InternalCheckContext): void {
+  if (!sourceFile.endsWith('.html') || !targetFile.endsWith('.html') || resolve(sourceFile) === resolve(targetFile)) {
+    return;
+  }
+
+  const targets = context.pageLinks.get(sourceFile) ?? new Set<string>();
+  targets.add(targetFile);
+  context.pageLinks.set(sourceFile, targets);
+}
+
+/**
+ * Build a check for the pages that count as entry points when looking for orphans
+ */
+async function createEntryPointMatcher(
+  options: OrphanPageOptions,
+  buildDir: string,
+  base: string
+): Promise<(page: LinkGraphPage) => boolean> {
+  const patterns = (options.entryPoints ?? ['/', '404.html']).map(pattern => ({
+    matchesUrl: pattern.startsWith('/'),
+    regex: wildcardToRegExp(pattern)
+  }));
+
+  const normalize = (path: string) => path.length > 1 ? path.replace(/\/+$/, '') : path;
+  const sitemapPaths = new Set<string>();
+
+  if (options.sitemap) {
+    const entries = await loadSitemap(buildDir, base);
+    if (entries === null) {
+      console.warn('Warning: orphanPages.sitemap is set but the build has no sitemap-index.xml or sitemap.xml');
+    }
+    for (const { url } of entries ?? []) {
+      const path = sitemapUrlToPath(url, base);
+      if (path) {
+        sitemapPaths.add(normalize(path));
       }
     }
   }
 
-  await walk(dir);
+  return page =>
+    patterns.some(({ matchesUrl, regex }) => regex.test(matchesUrl ? page.url : page.page)) ||
+    sitemapPaths.has(normalize(page.url));
+}
+
+/**
+ * Normalize the configured site origins, falling back to the origin of Astro's `site`
+ */
+function resolveSiteOrigins(siteOrigins: string[] | undefined, site: string | undefined): string[] {
+  const origins = siteOrigins ?? (site ? [site] : []);
+
+  return origins.flatMap(origin => {
+    try {
+      return [new URL(origin).origin];
+    } catch {
+      console.warn(`Warning: Ignoring invalid site origin ${origin}`);
+      return [];
+    }
+  });
+}
+
+/**
+ * Get all files in the build that match the include patterns, as paths under `dir`
+ */
+function getHtmlFiles(dir: string, index: BuildIndex, include: string[] = DEFAULT_INCLUDE): string[] {
+  const root = resolve(dir);
+  const files: string[] = [];
+
+  for (const file of index.files) {
+    // Patterns are always written with posix separators
+    const relativePath = relative(root, file).split(sep).join('/');
+
+    if (include.some(pattern => matchesIncludePattern(relativePath, pattern))) {
+      files.push(join(dir, relativePath));
+    }
+  }
+
   return files;
 }
 
 /**
- * Check links in a single HTML file
+ * Read a build file and extract its links, as a stylesheet for `.css` files
+ * and as HTML otherwise
+ */
+export async function extractLinksFromFile(filePath: string): Promise<Link[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return extname(filePath).toLowerCase() === '.css'
+    ? extractLinksFromCss(content, filePath)
+    : extractLinksFromHtml(content, filePath);
+}
+
+/**
+ * Parses files on the main thread, when no worker threads are used
+ */
+const MAIN_THREAD_PARSER: FileParser = {
+  links: extractLinksFromFile,
+  anchorIds: readAnchorIds
+};
+
+/**
+ * Wrap a file parser so files unchanged since the previous run reuse the links
+ * and anchor ids in the manifest, and everything parsed is recorded for the next run
+ */
+function createIncrementalParser(parser: FileParser, manifest: Manifest): FileParser {
+  return {
+    async links(filePath) {
+      const { previous, next } = await getFileEntry(manifest, filePath);
+      if (previous?.links) {
+        manifest.reused.links++;
+        next.links = previous.links;
+      } else {
+        const sourceFile = toBuildPath(filePath, manifest.buildDir);
+        next.links = (await parser.links(filePath)).map(link => ({ ...link, sourceFile }));
+      }
+      return next.links.map(link => ({ ...link, sourceFile: filePath }));
+    },
+
+    async anchorIds(filePath) {
+      const { previous, next } = await getFileEntry(manifest, filePath);
+      next.anchorIds = previous?.anchorIds ?? [...await parser.anchorIds(filePath)];
+      return new Set(next.anchorIds);
+    }
+  };
+}
+
+/**
+ * Builds with fewer files than this per worker are parsed on the main thread,
+ * where starting workers would cost more than it saves
+ */
+const MIN_FILES_PER_WORKER = 100;
+
+/**
+ * Default number of parse worker threads for a build: one per spare CPU core, up
+ * to 8, but none for small builds
+ */
+function defaultParseWorkers(fileCount: number): number {
+  return Math.max(0, Math.min(availableParallelism() - 1, 8, Math.floor(fileCount / MIN_FILES_PER_WORKER)));
+}
+
+/**
+ * Format the time since `start` (from performance.now()) for verbose output
+ */
+function formatElapsed(start: number): string {
+  const elapsed = performance.now() - start;
+  return elapsed < 1000 ? `${Math.round(elapsed)}ms` : `${(elapsed / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Check links in a single HTML or CSS file
  */
 async function checkLinksInFile(
   filePath: string,
-  buildDir: string,
-  redirects: RedirectRule[],
+  context: InternalCheckContext,
   options: {
     checkExternal: boolean;
     exclude: string[];
-    externalTimeout: number;
+    warnOnAbsoluteSelfLinks?: boolean;
+    redirectedLinks?: boolean | RedirectedLinkOptions;
+  },
+  externalScheduler: ExternalScheduler
+): Promise<{ links: Link[], brokenLinks: BrokenLink[], warnings: BrokenLink[] }> {
+  const links = await context.parser.links(filePath);
+
+  const originFile = context.pageOrigins[relative(context.buildDir, filePath).split(sep).join('/')];
+  if (originFile) {
+    links.forEach(link => link.originFile = originFile);
   }
-): Promise<{ links: Link[], brokenLinks: BrokenLink[] }> {
-  const html = await fs.readFile(filePath, 'utf-8');
-  const links = extractLinksFromHtml(html, filePath);
   const brokenLinks: BrokenLink[] = [];
+  const warnings: BrokenLink[] = [];
 
   // Process links concurrently in batches of 10
   const BATCH_SIZE = 10;
   for (let i = 0; i < links.length; i += BATCH_SIZE) {
     const batch = links.slice(i, i + BATCH_SIZE);
-    const batchPromises = batch.map(async (link) => {
+    const batchHops = batch.map((): RedirectHop[] => []);
+    const batchPromises = batch.map(async (link, index) => {
+      const hops = batchHops[index];
+
       // Skip excluded patterns
       if (options.exclude.some(pattern => matchesExcludePattern(link.href, pattern))) {
         return null;
       }
 
+      // Absolute links to the site itself are checked against this build, not the live site
+      const selfPath = link.type === 'external' ? toSelfPath(link.href, context.siteOrigins) : null;
+      if (selfPath !== null) {
+        // Canonical, alternate and social meta URLs have to be absolute
+        if (options.warnOnAbsoluteSelfLinks && !link.source?.startsWith('link[') && !link.source?.startsWith('meta[')) {
+          warnings.push({
+            ...link,
+            error: `Absolute link to this site, use the relative link ${selfPath} instead`,
+            reason: 'absolute-self-link'
+          });
+        }
+        return await checkSelfLink(link, selfPath, context, hops);
+      }
+
       if (link.type === 'external') {
         if (options.checkExternal) {
-          return await checkExternalLink(link, options.externalTimeout);
+          return await externalScheduler.check(link);
         }
-      } else if (link.type === 'internal' || link.type === 'asset') {
-        return await checkInternalLink(link, buildDir, redirects);
+      } else {
+        return await checkInternalLink(link, context, hops);
       }
       return null;
     });
 
     const batchResults = await Promise.all(batchPromises);
-    brokenLinks.push(...batchResults.filter((result): result is BrokenLink => result !== null));
+    batchResults.forEach((broken, index) => {
+      if (broken) {
+        brokenLinks.push(broken);
+        return;
+      }
+
+      // Valid links reached through redirect rules are reported when asked for
+      const hops = batchHops[index];
+      if (options.redirectedLinks && hops.length > 0) {
+        const redirectOptions = options.redirectedLinks === true ? {} : options.redirectedLinks;
+        const { finding, isError } = describeRedirectedLink(batch[index], hops, redirectOptions);
+        (isError ? brokenLinks : warnings).push(finding);
+      }
+    });
+  }
+
+  return { links, brokenLinks, warnings };
+}
+
+/**
+ * Files checked when no `include` patterns are given: pages and built stylesheets
+ */
+const DEFAULT_INCLUDE = ['**/*.html', '**/*.css'];
+
+/**
+ * Astro's error pages, which a server sends with their error status for any
+ * missing URL rather than at a URL of their own
+ */
+const ERROR_PAGES = ['404.html', '500.html'];
+
+/**
+ * Check the site by crawling a running server rather than reading the build.
+ * The crawl starts from `seeds`, or from every prerendered page in the build
+ * directory, or from the server URL itself when there are none.
+ */
+async function checkServer(
+  crawl: CrawlOptions,
+  buildDir: string,
+  options: {
+    include: string[];
+    exclude: string[];
+    checkExternal: boolean;
+    externalConcurrency: number;
+    externalTimeout: number;
+    acceptedStatusCodes: number[];
+    rules: SeverityRule[];
+    verbose: boolean;
+    logger?: (message: string) => void;
+    redirectedLinks?: boolean | RedirectedLinkOptions;
+    orphanPages?: boolean | OrphanPageOptions;
+    linkGraph?: LinkValidatorOptions['linkGraph'];
+    checkSitemap?: boolean;
+    checkI18n?: boolean;
+  },
+  siteOrigins: string[],
+  externalScheduler: ExternalScheduler
+): Promise<LinkCheckResult> {
+  const log = options.logger ?? console.log;
+  let seeds = crawl.seeds;
+  if (!seeds) {
+    const index = existsSync(buildDir) ? await indexBuildDirectory(buildDir) : null;
+    seeds = index
+      ? getHtmlFiles(buildDir, index, options.include)
+        .map(file => toBuildPath(file, buildDir))
+        .filter(page => page.endsWith('.html') && !ERROR_PAGES.includes(page))
+        .map(pageUrl)
+        .sort()
+      : [];
+    if (seeds.length === 0) {
+      seeds = ['/'];
+    }
+  }
+
+  if (options.orphanPages || options.linkGraph || options.checkSitemap || options.checkI18n) {
+    console.warn('Warning: orphanPages, linkGraph, checkSitemap and checkI18n read the build directory and are skipped when crawling a server');
   }
 
-  return { links, brokenLinks };
+  const start = performance.now();
+  const maxPages = crawl.maxPages ?? DEFAULT_MAX_PAGES;
+  const crawlResult = await crawlSite({
+    url: crawl.url,
+    seeds,
+    maxPages,
+    concurrency: crawl.concurrency ?? options.externalConcurrency,
+    timeout: options.externalTimeout,
+    acceptedStatusCodes: options.acceptedStatusCodes,
+    exclude: options.exclude,
+    checkExternal: options.checkExternal,
+    siteOrigins,
+    redirectedLinks: options.redirectedLinks
+  }, externalScheduler);
+
+  const result: LinkCheckResult = {
+    totalLinks: 0,
+    brokenLinks: [],
+    warnings: [],
+    checkedFiles: [],
+    skippedFiles: []
+  };
+
+  for (const page of crawlResult.pages) {
+    const findings = applySeverityRules(page, options.rules, buildDir);
+    result.totalLinks += page.links.length;
+    result.brokenLinks.push(...findings.brokenLinks);
+    result.warnings!.push(...findings.warnings);
+    result.checkedFiles.push(page.url);
+
+    if (options.verbose) {
+      log(`Checked ${page.links.length} links in ${page.url}`);
+    }
+  }
+
+  for (const { url, error } of crawlResult.skipped) {
+    result.skippedFiles.push(url);
+    if (options.verbose) {
+      console.warn(`Skipped ${url}: ${error}`);
+    }
+  }
+
+  if (crawlResult.truncated) {
+    console.warn(`Warning: Stopped crawling ${crawl.url} after ${maxPages} pages; raise crawl.maxPages to check the rest`);
+  }
+
+  if (options.verbose) {
+    log(`🕷️  Crawled ${crawlResult.pages.length} pages from ${crawl.url} in ${formatElapsed(start)}`);
+  }
+
+  return result;
+}
+
+/**
+ * Compare the result against the baseline of known broken links, or record
+ * the baseline, when `baselineFile` is set
+ */
+async function compareWithBaseline(
+  result: LinkCheckResult,
+  options: LinkValidatorOptions,
+  buildDir: string
+): Promise<LinkCheckResult> {
+  if (!options.baselineFile) {
+    return result;
+  }
+
+  const log = options.logger ?? console.log;
+  if (options.updateBaseline) {
+    const entries = await writeBaseline(options.baselineFile, result.brokenLinks, buildDir);
+    if (options.verbose) {
+      log(`📌 Wrote ${entries.length} entries to baseline ${options.baselineFile}`);
+    }
+    return { ...result, brokenLinks: [], baselinedLinks: result.brokenLinks, fixedBaselineEntries: [] };
+  }
+
+  const entries = await loadBaseline(options.baselineFile);
+  if (entries === null) {
+    console.warn(`Warning: Baseline file ${options.baselineFile} does not exist; every broken link is treated as new`);
+  }
+  return applyBaseline(result, entries ?? [], buildDir);
 }
 
 /**
@@ -400,79 +1378,275 @@ async function checkLinksInFile(
  */
 export async function checkLinks(
   buildDir: string,
-  options: LinkValidatorOptions = {}
+  options: LinkValidatorOptions = {},
+  projectConfig: AstroProjectConfig = {}
 ): Promise<LinkCheckResult> {
   const resolvedOptions = {
     checkExternal: false,
     failOnBrokenLinks: true,
     exclude: [],
-    include: ['**/*.html'],
+    include: DEFAULT_INCLUDE,
     externalTimeout: 5000,
+    externalConcurrency: 10,
+    externalHostConcurrency: 2,
+    externalRetries: 2,
+    externalRetryDelay: 1000,
+    acceptedStatusCodes: [] as number[],
+    externalDomains: {},
+    rules: [] as SeverityRule[],
     verbose: false,
-    redirectsFile: undefined as string | undefined,
+    redirectsFile: undefined as string | string[] | undefined,
     ...options
   };
 
+  const log = resolvedOptions.logger ?? console.log;
   const buildDirPath = typeof buildDir === 'string' ? buildDir : fileURLToPath(buildDir);
 
+  const base = (projectConfig.base ?? '').replace(/\/+$/, '');
+
   // Load redirects from the specified file (if configured)
   const redirects = await loadRedirects(buildDirPath, resolvedOptions.redirectsFile);
   if (resolvedOptions.verbose && redirects.length > 0) {
-    console.log(`📍 Loaded ${redirects.length} redirect rules from ${resolvedOptions.redirectsFile}`);
+    log(`📍 Loaded ${redirects.length} redirect rules from ${[resolvedOptions.redirectsFile].flat().join(', ')}`);
+  }
+
+  // Redirects declared in astro.config apply alongside the host's own rules
+  if (projectConfig.redirects) {
+    const astroRedirects = parseAstroRedirects(projectConfig.redirects, base);
+    redirects.push(...astroRedirects);
+    if (resolvedOptions.verbose && astroRedirects.length > 0) {
+      log(`📍 Loaded ${astroRedirects.length} redirect rules from astro.config`);
+    }
+  }
+
+  // Reuse recent external link results from earlier runs
+  const externalCache = resolvedOptions.checkExternal && resolvedOptions.externalCache
+    ? await loadExternalCache(resolvedOptions.externalCache)
+    : null;
+  if (resolvedOptions.verbose && externalCache) {
+    log(`💾 Loaded ${externalCache.entries.size} cached external link results from ${externalCache.path}`);
   }
 
-  const htmlFiles = await getHtmlFiles(buildDirPath, resolvedOptions.include);
+  // One scheduler for the whole run, so each external URL is requested once
+  const externalScheduler = createExternalScheduler({
+    timeout: resolvedOptions.externalTimeout,
+    concurrency: resolvedOptions.externalConcurrency,
+    hostConcurrency: resolvedOptions.externalHostConcurrency,
+    retries: resolvedOptions.externalRetries,
+    retryDelay: resolvedOptions.externalRetryDelay,
+    acceptedStatusCodes: resolvedOptions.acceptedStatusCodes,
+    domains: resolvedOptions.externalDomains
+  }, externalCache);
+
+  const siteOrigins = resolveSiteOrigins(resolvedOptions.siteOrigins, projectConfig.site);
+
+  // A running server answers for the site instead of the build directory
+  if (resolvedOptions.crawl) {
+    const result = await checkServer(resolvedOptions.crawl, buildDirPath, resolvedOptions, siteOrigins, externalScheduler);
+    if (externalCache) {
+      await saveExternalCache(externalCache);
+    }
+    return compareWithBaseline(result, resolvedOptions, buildDirPath);
+  }
+
+  // Walk the build once; every existence check after this is a lookup
+  let phaseStart = performance.now();
+  const buildIndex = await indexBuildDirectory(buildDirPath);
+  const htmlFiles = getHtmlFiles(buildDirPath, buildIndex, resolvedOptions.include);
+  if (resolvedOptions.verbose) {
+    log(`⏱️  Indexed ${buildIndex.files.size} build files in ${formatElapsed(phaseStart)}`);
+  }
+
+  const context: InternalCheckContext = {
+    buildDir: buildDirPath,
+    pageOrigins: projectConfig.pageOrigins ?? {},
+    redirects,
+    anchors: new Map(),
+    pageLinks: new Map(),
+    base,
+    trailingSlash: projectConfig.trailingSlash ?? 'ignore',
+    siteOrigins,
+    directories: resolvedOptions.caseSensitivePaths
+      ? new Map([...buildIndex.directories].map(([dir, entries]) => [dir, Promise.resolve(entries)]))
+      : null,
+    buildIndex,
+    serverRoutes: await resolveServerRoutes(projectConfig.serverRoutes ?? [], resolvedOptions.serverRoutePaths ?? {}),
+    resolutions: new Map(),
+    parser: MAIN_THREAD_PARSER,
+    manifest: null
+  };
+
+  // Results of the previous run hold while these settings are the same
+  if (resolvedOptions.incremental) {
+    const configKey = hashConfig({
+      base,
+      trailingSlash: context.trailingSlash,
+      caseSensitivePaths: Boolean(resolvedOptions.caseSensitivePaths),
+      redirects,
+      serverRoutes: context.serverRoutes.map(route => [route.pattern, route.patternRegex.source, route.paths && [...route.paths]])
+    });
+    context.manifest = await loadManifest(resolvedOptions.incremental, buildDirPath, configKey);
+    context.parser = createIncrementalParser(MAIN_THREAD_PARSER, context.manifest);
+  }
 
   const result: LinkCheckResult = {
     totalLinks: 0,
     brokenLinks: [],
+    warnings: [],
     checkedFiles: [],
     skippedFiles: []
   };
 
-  // Process files concurrently in batches for better performance
-  const FILE_BATCH_SIZE = 5; // Process 5 files at once
-
-  for (let i = 0; i < htmlFiles.length; i += FILE_BATCH_SIZE) {
-    const batch = htmlFiles.slice(i, i + FILE_BATCH_SIZE);
-    const batchPromises = batch.map(async (filePath) => {
-      try {
-        const fileResult = await checkLinksInFile(filePath, buildDirPath, redirects, resolvedOptions);
-        return {
-          success: true as const,
-          filePath,
-          links: fileResult.links,
-          brokenLinks: fileResult.brokenLinks
-        };
-      } catch (error) {
-        return {
-          success: false as const,
-          filePath,
-          error: error instanceof Error ? error.message : String(error)
-        };
-      }
-    });
+  // Parse pages on worker threads for large builds
+  const workerCount = resolvedOptions.parseWorkers ?? defaultParseWorkers(htmlFiles.length);
+  const parsePool: ParsePool | null = workerCount > 0 ? createParsePool(workerCount) : null;
+  if (parsePool) {
+    context.parser = context.manifest ? createIncrementalParser(parsePool, context.manifest) : parsePool;
+  }
 
-    const batchResults = await Promise.all(batchPromises);
+  // The links the i18n checks need from each page, kept as the pages are checked
+  const i18nPages: I18nPage[] = [];
 
-    // Process batch results
-    for (const fileResult of batchResults) {
-      if (fileResult.success) {
-        result.totalLinks += fileResult.links.length;
-        result.brokenLinks.push(...fileResult.brokenLinks);
-        result.checkedFiles.push(relative(buildDirPath, fileResult.filePath));
+  // Process files concurrently in batches for better performance, enough at once to keep every worker busy
+  const FILE_BATCH_SIZE = Math.max(5, workerCount * 4);
+  phaseStart = performance.now();
 
-        if (resolvedOptions.verbose) {
-          console.log(`Checked ${fileResult.links.length} links in ${relative(buildDirPath, fileResult.filePath)}`);
+  try {
+    for (let i = 0; i < htmlFiles.length; i += FILE_BATCH_SIZE) {
+      const batch = htmlFiles.slice(i, i + FILE_BATCH_SIZE);
+      const batchPromises = batch.map(async (filePath) => {
+        try {
+          const fileResult = await checkLinksInFile(filePath, context, resolvedOptions, externalScheduler);
+          const findings = applySeverityRules(fileResult, resolvedOptions.rules, buildDirPath);
+          return {
+            success: true as const,
+            filePath,
+            links: fileResult.links,
+            brokenLinks: findings.brokenLinks,
+            warnings: findings.warnings
+          };
+        } catch (error) {
+          return {
+            success: false as const,
+            filePath,
+            error: error instanceof Error ? error.message : String(error)
+          };
         }
-      } else {
-        result.skippedFiles.push(relative(buildDirPath, fileResult.filePath));
-        if (resolvedOptions.verbose) {
-          console.warn(`Skipped ${relative(buildDirPath, fileResult.filePath)}: ${fileResult.error}`);
+      });
+
+      const batchResults = await Promise.all(batchPromises);
+
+      // Process batch results
+      for (const fileResult of batchResults) {
+        if (fileResult.success) {
+          result.totalLinks += fileResult.links.length;
+          result.brokenLinks.push(...fileResult.brokenLinks);
+          result.warnings!.push(...fileResult.warnings);
+          result.checkedFiles.push(relative(buildDirPath, fileResult.filePath));
+
+          if (resolvedOptions.checkI18n && fileResult.filePath.endsWith('.html')) {
+            i18nPages.push({
+              page: toBuildPath(fileResult.filePath, buildDirPath),
+              links: fileResult.links.filter(link => link.source === 'a[href]' || link.source?.startsWith('link[hreflang='))
+            });
+          }
+
+          if (resolvedOptions.verbose) {
+            log(`Checked ${fileResult.links.length} links in ${relative(buildDirPath, fileResult.filePath)}`);
+          }
+        } else {
+          result.skippedFiles.push(relative(buildDirPath, fileResult.filePath));
+          if (resolvedOptions.verbose) {
+            console.warn(`Skipped ${relative(buildDirPath, fileResult.filePath)}: ${fileResult.error}`);
+          }
         }
       }
     }
+  } finally {
+    // The sitemap check below runs after the workers are gone
+    context.parser = MAIN_THREAD_PARSER;
+    await parsePool?.close();
   }
 
-  return result;
+  if (context.manifest) {
+    await saveManifest(context.manifest);
+
+    if (resolvedOptions.verbose) {
+      const { reused } = context.manifest;
+      log(`♻️  Reused the links of ${reused.links} of ${htmlFiles.length} files and ${reused.resolutions} of ${context.resolutions.size} href results from ${context.manifest.path}`);
+    }
+  }
+
+  if (resolvedOptions.verbose) {
+    const threads = parsePool ? `${parsePool.size} parse worker${parsePool.size === 1 ? '' : 's'}` : 'the main thread';
+    log(`⏱️  Checked ${htmlFiles.length} files in ${formatElapsed(phaseStart)} using ${threads}`);
+    log(`⏱️  Resolved ${context.resolutions.size} distinct internal hrefs`);
+  }
+
+  if (externalCache) {
+    await saveExternalCache(externalCache);
+  }
+
+  // Page-level link graph and the pages nothing links to
+  if (resolvedOptions.orphanPages || resolvedOptions.linkGraph || resolvedOptions.checkSitemap) {
+    const checkedPages = result.checkedFiles.map(file => file.split(sep).join('/')).filter(file => file.endsWith('.html'));
+    result.linkGraph = buildLinkGraph(context.pageLinks, checkedPages, buildDirPath);
+
+    if (resolvedOptions.orphanPages) {
+      const orphanOptions = resolvedOptions.orphanPages === true ? {} : resolvedOptions.orphanPages;
+      const isEntryPoint = await createEntryPointMatcher(orphanOptions, buildDirPath, base);
+      const orphanPages = findOrphanPages(result.linkGraph, checkedPages, isEntryPoint).map(page => ({ page, reason: 'orphan-page' as const }));
+      result.orphanPages = applyIssueSeverity(orphanPages, resolvedOptions.rules, orphan => ({ sourceFile: orphan.page }));
+
+      if (resolvedOptions.verbose) {
+        log(`🕸️  Built link graph of ${result.linkGraph.pages.length} pages, ${result.orphanPages.length} orphaned`);
+      }
+    }
+  }
+
+  // The sitemap must list exactly the pages that are built and linked
+  if (resolvedOptions.checkSitemap && result.linkGraph) {
+    const entries = await loadSitemap(buildDirPath, base);
+
+    if (entries === null) {
+      console.warn('Warning: checkSitemap is set but the build has no sitemap-index.xml or sitemap.xml');
+    } else {
+      // Sitemap URLs are resolved like links from the sitemap file itself, so redirects and the base apply
+      const resolvePath = async (path: string, entry: { url: string; sitemapFile: string }) => {
+        const broken = await checkInternalLink({
+          href: path,
+          text: entry.url,
+          sourceFile: join(buildDirPath, entry.sitemapFile),
+          type: 'internal'
+        }, { ...context, trailingSlash: 'ignore', resolutions: new Map(), manifest: null });
+        return broken === null || (broken.reason !== 'not-found' && broken.reason !== 'invalid');
+      };
+
+      const sitemapIssues = await validateSitemap(entries, result.linkGraph, { site: projectConfig.site, base, resolvePath });
+      result.sitemapIssues = applyIssueSeverity(sitemapIssues, resolvedOptions.rules, issue => ({
+        href: issue.url,
+        sourceFile: issue.page ?? issue.sitemapFile
+      }));
+
+      if (resolvedOptions.verbose) {
+        log(`🗺️  Checked ${entries.length} sitemap URLs, found ${result.sitemapIssues.length} issues`);
+      }
+    }
+  }
+
+  // Hreflang alternates must agree with each other, and links should stay in the page's locale
+  if (resolvedOptions.checkI18n) {
+    if (!projectConfig.i18n) {
+      console.warn('Warning: checkI18n is set but the project has no i18n config');
+    } else {
+      const i18nIssues = validateI18n(i18nPages, { i18n: projectConfig.i18n, base, siteOrigins });
+      result.i18nIssues = applyIssueSeverity(i18nIssues, resolvedOptions.rules, issue => ({ href: issue.href, sourceFile: issue.page }));
+
+      if (resolvedOptions.verbose) {
+        log(`🌍 Checked the locale links of ${i18nPages.length} pages, found ${result.i18nIssues.length} issues`);
+      }
+    }
+  }
+
+  return compareWithBaseline(result, resolvedOptions, buildDirPath);
 }
@@ -0,0 +1,135 @@
+import { promises as fs } from 'node:fs';
+import { dirname, relative, resolve, sep } from 'node:path';
+import type { LinkGraph, LinkGraphFormat, LinkGraphOptions, LinkGraphPage } from './types';
+
+/**
+ * Get the URL path a built HTML file is served at, relative to the site base
+ * ('index.html' → '/', 'blog/post/index.html' → '/blog/post/', 'about.html' → '/about')
+ */
+export function pageUrl(page: string): string {
+  if (page === 'index.html' || page.endsWith('/index.html')) {
+    return '/' + page.slice(0, -'index.html'.length);
+  }
+
+  return '/' + page.replace(/\.html$/, '');
+}
+
+/**
+ * Build the page-level link graph from the page-to-page links found while checking.
+ * Every checked page is a node, as is every page it links to.
+ */
+export function buildLinkGraph(edges: Map<string, Set<string>>, checkedPages: string[], buildDir: string): LinkGraph {
+  const toPage = (file: string) => relative(buildDir, file).split(sep).join('/');
+  const linksTo = new Map<string, Set<string>>();
+  const linkedFrom = new Map<string, Set<string>>();
+
+  const addPage = (page: string) => {
+    if (!linksTo.has(page)) {
+      linksTo.set(page, new Set());
+      linkedFrom.set(page, new Set());
+    }
+  };
+
+  checkedPages.forEach(addPage);
+
+  for (const [sourceFile, targetFiles] of edges) {
+    const source = toPage(sourceFile);
+    addPage(source);
+
+    for (const targetFile of targetFiles) {
+      const target = toPage(targetFile);
+      addPage(target);
+      linksTo.get(source)!.add(target);
+      linkedFrom.get(target)!.add(source);
+    }
+  }
+
+  const pages: LinkGraphPage[] = [...linksTo.keys()].sort().map(page => ({
+    page,
+    url: pageUrl(page),
+    inDegree: linkedFrom.get(page)!.size,
+    outDegree: linksTo.get(page)!.size,
+    linksTo: [...linksTo.get(page)!].sort()
+  }));
+
+  return { pages };
+}
+
+/**
+ * Find the checked pages no other page links to, leaving out entry points
+ */
+export function findOrphanPages(
+  graph: LinkGraph,
+  checkedPages: string[],
+  isEntryPoint: (page: LinkGraphPage) => boolean
+): string[] {
+  const checked = new Set(checkedPages);
+
+  return graph.pages
+    .filter(page => checked.has(page.page) && page.inDegree === 0 && !isEntryPoint(page))
+    .map(page => page.page);
+}
+
+/**
+ * Quote a string as a Graphviz DOT identifier. Backslashes are left alone so
+ * labels can use DOT escapes such as `\n`.
+ */
+function dotId(value: string): string {
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Graphviz DOT graph with one node per page, labelled with its URL and degrees
+ */
+function formatDot(graph: LinkGraph): string {
+  const lines = ['digraph links {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const page of graph.pages) {
+    const attributes = [`label=${dotId(`${page.url}\\nin ${page.inDegree}, out ${page.outDegree}`)}`];
+    if (page.inDegree === 0) {
+      attributes.push('style=dashed');
+    }
+    lines.push(`  ${dotId(page.url)} [${attributes.join(', ')}];`);
+  }
+
+  const urls = new Map(graph.pages.map(page => [page.page, page.url]));
+  for (const page of graph.pages) {
+    for (const target of page.linksTo) {
+      lines.push(`  ${dotId(page.url)} -> ${dotId(urls.get(target)!)};`);
+    }
+  }
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
+
+/**
+ * Format a link graph as JSON or Graphviz DOT
+ */
+export function formatLinkGraph(graph: LinkGraph, format: LinkGraphFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(graph, null, 2) + '\n';
+    case 'dot':
+      return formatDot(graph);
+    default:
+      throw new Error(`Unknown link graph format: ${format}`);
+  }
+}
+
+/**
+ * Write a link graph to each configured output, creating directories as needed.
+ * Returns the absolute paths written.
+ */
+export async function writeLinkGraphs(graph: LinkGraph, outputs: LinkGraphOptions | LinkGraphOptions[]): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const output of Array.isArray(outputs) ? outputs : [outputs]) {
+    const outputPath = resolve(output.outputFile);
+    await fs.mkdir(dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, formatLinkGraph(graph, output.format), 'utf-8');
+    written.push(outputPath);
+  }
+
+  return written;
+}
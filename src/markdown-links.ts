@@ -0,0 +1,321 @@
+import type { Link } from './types';
+
+/**
+ * Link text in square brackets, allowing escapes and one level of nested brackets
+ * (for images inside links)
+ */
+const LINK_TEXT_PATTERN = /\[((?:[^[\]\\]|\\.|\[(?:[^[\]\\]|\\.)*\])*)\]/y;
+
+/**
+ * What may follow a link destination before its closing parenthesis: an optional title
+ */
+const LINK_TITLE_PATTERN = /[ \t]*\n?[ \t]*(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\))?[ \t]*\n?[ \t]*\)/y;
+
+/**
+ * The label of a full or collapsed reference, `[label]` or `[]` after the link text
+ */
+const REFERENCE_LABEL_PATTERN = /\[([^\]]*)\]/y;
+
+/**
+ * Reference definitions: `[label]: destination`, with the destination optionally
+ * on the next line
+ */
+const DEFINITION_PATTERN = /^ {0,3}\[((?:[^[\]\\]|\\.)+)\]:[ \t]*\n?[ \t]*(<[^>\n]*>|\S+)/gm;
+
+/**
+ * Autolinks such as `<https://example.com>`
+ */
+const AUTOLINK_PATTERN = /<(https?:\/\/[^\s<>]*)>/gi;
+
+/**
+ * Links and images written as HTML or JSX
+ */
+const HTML_LINK_PATTERN = /<(a|img)\b[^>]*?\s(href|src)\s*=\s*(["'])(.*?)\3/gi;
+
+/**
+ * ATX headings, `## Heading`, with any closing hashes
+ */
+const ATX_HEADING_PATTERN = /^ {0,3}#{1,6}[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Setext heading underlines, `===` or `---` under a line of text
+ */
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(?:=+|-+)[ \t]*$/;
+
+/**
+ * Characters github-slugger (which Astro uses for heading ids) drops
+ */
+const SLUG_REMOVED_PATTERN = /[^\p{L}\p{M}\p{N}\p{Pc} -]/gu;
+
+/**
+ * Replace text with spaces, keeping every offset and line break where it was
+ */
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
+
+/**
+ * Blank out everything that can't hold a link: frontmatter, fenced code, HTML
+ * and MDX comments, and inline code. Offsets and line breaks are unchanged.
+ */
+function maskNonContent(source: string): string {
+  const text = source
+    .replace(/\r(?=\n)/g, ' ')
+    .replace(/^---[ \t]*\n[\s\S]*?\n---[ \t]*(?=\n|$)/, blank);
+
+  // Fenced code blocks, which may sit in a list or blockquote
+  let fence: string | null = null;
+  const lines = text.split('\n').map(line => {
+    const match = /^[ \t>]*(`{3,}|~{3,})/.exec(line);
+    if (fence === null) {
+      fence = match ? match[1] : null;
+      return fence === null ? line : blank(line);
+    }
+
+    if (match && match[1][0] === fence[0] && match[1].length >= fence.length && line.replace(/^[ \t>]*/, '').trim() === match[1]) {
+      fence = null;
+    }
+    return blank(line);
+  });
+
+  return lines.join('\n')
+    .replace(/<!--[\s\S]*?-->/g, blank)
+    .replace(/\{\/\*[\s\S]*?\*\/\}/g, blank)
+    .replace(/(`+)(?!`)[\s\S]*?[^`]\1(?!`)/g, blank);
+}
+
+/**
+ * Convert offsets into lines and columns
+ */
+function createPositions(text: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Whether the character at an offset is escaped with a backslash
+ */
+function isEscaped(text: string, offset: number): boolean {
+  let backslashes = 0;
+  while (offset - backslashes - 1 >= 0 && text[offset - backslashes - 1] === '\\') {
+    backslashes++;
+  }
+  return backslashes % 2 === 1;
+}
+
+/**
+ * Read an inline link destination and title starting just after `(`. Returns
+ * the destination and where it starts, or null when this isn't an inline link.
+ */
+function readDestination(text: string, start: number): { href: string; offset: number } | null {
+  let i = start;
+  while (text[i] === ' ' || text[i] === '\t' || text[i] === '\n') i++;
+
+  let href: string;
+  const offset = text[i] === '<' ? i + 1 : i;
+
+  if (text[i] === '<') {
+    const end = text.indexOf('>', i);
+    if (end === -1 || text.slice(i, end).includes('\n')) {
+      return null;
+    }
+    href = text.slice(i + 1, end);
+    i = end + 1;
+  } else {
+    let depth = 0;
+    for (; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+        i++;
+      } else if (/\s/.test(char)) {
+        break;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+    }
+    href = text.slice(offset, i);
+  }
+
+  LINK_TITLE_PATTERN.lastIndex = i;
+  return LINK_TITLE_PATTERN.test(text) ? { href, offset } : null;
+}
+
+/**
+ * Normalize a reference label the way CommonMark matches them
+ */
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Remove Markdown backslash escapes from a destination
+ */
+function unescapeDestination(href: string): string {
+  return href.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+/**
+ * Whether a destination points at something that can be checked: not empty,
+ * and not a scheme such as `mailto:` that isn't a web address
+ */
+function isCheckableDestination(href: string): boolean {
+  return href !== '' && (!/^[a-z][a-z\d+.-]*:/i.test(href) || /^https?:/i.test(href));
+}
+
+/**
+ * Extract the links and images of a Markdown or MDX document: inline links and
+ * images, reference definitions, autolinks, and `<a href>` and `<img src>` tags.
+ * Each link is positioned at its destination, so the line and column point at
+ * the URL to fix. Links in frontmatter, code and comments are skipped. Images,
+ * and links through definitions that images use, have the type `asset`.
+ */
+export function extractLinksFromMarkdown(source: string, sourceFile: string): Link[] {
+  const text = maskNonContent(source);
+  const position = createPositions(text);
+  const found: (Link & { offset: number })[] = [];
+  const imageLabels = new Set<string>();
+
+  const addLink = (href: string, offset: number, linkText: string, isImage: boolean, origin: string) => {
+    href = unescapeDestination(href.trim());
+    if (!isCheckableDestination(href)) {
+      return;
+    }
+
+    const isExternal = /^(https?:)?\/\//i.test(href);
+    found.push({
+      href,
+      text: linkText.trim(),
+      ...position(offset),
+      sourceFile,
+      type: isExternal ? 'external' : href.startsWith('#') ? 'anchor' : isImage ? 'asset' : 'internal',
+      source: origin,
+      offset
+    });
+  };
+
+  // Inline links and images, including images nested in link text
+  for (let i = text.indexOf('['); i !== -1; i = text.indexOf('[', i + 1)) {
+    if (isEscaped(text, i)) {
+      continue;
+    }
+
+    LINK_TEXT_PATTERN.lastIndex = i;
+    const match = LINK_TEXT_PATTERN.exec(text);
+    if (!match) {
+      continue;
+    }
+
+    const isImage = text[i - 1] === '!' && !isEscaped(text, i - 1);
+    const after = i + match[0].length;
+    const linkText = source.slice(i + 1, after - 1);
+
+    if (text[after] === '(') {
+      const destination = readDestination(text, after + 1);
+      if (destination) {
+        addLink(destination.href, destination.offset, linkText, isImage, isImage ? '![alt](src)' : '[text](href)');
+      }
+    } else if (isImage) {
+      // Full, collapsed and shortcut references; the definition holds the URL
+      REFERENCE_LABEL_PATTERN.lastIndex = after;
+      const label = REFERENCE_LABEL_PATTERN.exec(text);
+      imageLabels.add(normalizeLabel(label && label[1] ? label[1] : match[1]));
+    }
+  }
+
+  for (const match of text.matchAll(DEFINITION_PATTERN)) {
+    const destination = match[2];
+    const start = (match.index ?? 0) + match[0].length - destination.length;
+    const isAngled = destination.startsWith('<');
+    const label = match[1];
+    addLink(isAngled ? destination.slice(1, -1) : destination, isAngled ? start + 1 : start, label, imageLabels.has(normalizeLabel(label)), '[label]: href');
+  }
+
+  for (const match of text.matchAll(AUTOLINK_PATTERN)) {
+    addLink(match[1], (match.index ?? 0) + 1, match[1], false, '<href>');
+  }
+
+  for (const match of text.matchAll(HTML_LINK_PATTERN)) {
+    const offset = (match.index ?? 0) + match[0].length - match[4].length - 1;
+    const tag = match[1].toLowerCase();
+    addLink(match[4], offset, '', tag === 'img', `${tag}[${match[2].toLowerCase()}]`);
+  }
+
+  return found
+    .sort((a, b) => a.offset - b.offset)
+    .map(({ offset: _offset, ...link }) => link);
+}
+
+/**
+ * Slug a heading the way github-slugger does, counting repeats in `seen`
+ */
+function slugHeading(heading: string, seen: Map<string, number>): string {
+  const slug = heading.toLowerCase().replace(SLUG_REMOVED_PATTERN, '').replace(/ /g, '-');
+  const count = seen.get(slug) ?? 0;
+  seen.set(slug, count + 1);
+  return count === 0 ? slug : `${slug}-${count}`;
+}
+
+/**
+ * The plain text of a heading's inline Markdown
+ */
+function headingText(markdown: string): string {
+  return markdown
+    .replace(/!?\[((?:[^[\]\\]|\\.)*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(`+)(.*?)\1/g, '$2')
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, '$2')
+    .replace(/\\([!-/:-@[-`{-~])/g, '$1')
+    .trim();
+}
+
+/**
+ * Extract the fragment targets of a Markdown or MDX document: the ids Astro
+ * gives its headings, and `id` attributes written as HTML or JSX
+ */
+export function extractMarkdownAnchorIds(source: string): Set<string> {
+  const text = maskNonContent(source);
+  const sourceLines = source.replace(/\r(?=\n)/g, '').split('\n');
+  const lines = text.split('\n');
+  const seen = new Map<string, number>();
+  const ids = new Set<string>();
+
+  lines.forEach((line, index) => {
+    const atx = ATX_HEADING_PATTERN.exec(line);
+    if (atx) {
+      // The masked line has its inline code blanked, so the heading text comes from the source
+      const heading = ATX_HEADING_PATTERN.exec(sourceLines[index]);
+      ids.add(slugHeading(headingText(heading ? heading[1] : atx[1]), seen));
+      return;
+    }
+
+    const previous = lines[index - 1];
+    if (index > 0 && SETEXT_UNDERLINE_PATTERN.test(line) && previous.trim() !== '' && !ATX_HEADING_PATTERN.test(previous) && !SETEXT_UNDERLINE_PATTERN.test(previous)) {
+      ids.add(slugHeading(headingText(sourceLines[index - 1]), seen));
+    }
+  });
+
+  for (const match of text.matchAll(/\s(?:id|name)\s*=\s*(["'])(.*?)\1/g)) {
+    ids.add(match[2]);
+  }
+
+  return ids;
+}
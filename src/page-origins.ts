@@ -0,0 +1,130 @@
+import { existsSync, promises as fs } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * The route information needed to trace a built page back to its source.
+ * Collected from `astro:routes:resolved` (or the `routes` Astro 4 passes to
+ * `astro:build:done`).
+ */
+export interface PageRoute {
+  /**
+   * Route pattern, e.g. '/blog/[slug]'
+   */
+  pattern: string;
+
+  /**
+   * Project-relative component that renders the route, e.g. 'src/pages/blog/[slug].astro'
+   */
+  entrypoint: string;
+
+  /**
+   * Regex matching pathnames served by the route
+   */
+  patternRegex: RegExp;
+
+  /**
+   * Names of the dynamic params in the pattern
+   */
+  params: string[];
+
+  /**
+   * Built files for the route, when the route data carries them (Astro 4)
+   */
+  distURL?: URL[];
+}
+
+/**
+ * Extensions a content collection entry can have
+ */
+const CONTENT_EXTENSIONS = ['.md', '.mdx', '.mdoc', '.markdoc'];
+
+/**
+ * Convert a path to posix separators
+ */
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
+
+/**
+ * Work out the pathname a built HTML file is served at
+ */
+function pathnameForFile(relativePath: string): string {
+  const pathname = '/' + relativePath
+    .replace(/(^|\/)index\.html$/, '')
+    .replace(/\.html$/, '');
+  return pathname === '/' ? pathname : pathname.replace(/\/$/, '');
+}
+
+/**
+ * Look for a content collection entry named after a route param value
+ * (`src/content/<collection>/<value>.md`, or `<value>/index.md`)
+ */
+function findContentEntry(root: string, collections: string[], value: string): string | null {
+  for (const collection of collections) {
+    for (const extension of CONTENT_EXTENSIONS) {
+      for (const candidate of [value + extension, join(value, 'index' + extension)]) {
+        const entryPath = join(root, 'src', 'content', collection, candidate);
+        if (existsSync(entryPath)) {
+          return toPosix(relative(root, entryPath));
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map each built HTML file (relative to the build directory, posix separators)
+ * to the project file it was generated from. Dynamic routes are traced to a
+ * content collection entry when one matches the last route param; otherwise
+ * the route's component is used. This is best effort: pages that can't be
+ * traced are left out.
+ */
+export async function resolvePageOrigins(
+  routes: PageRoute[],
+  assets: Map<string, URL[]> | undefined,
+  buildDir: string,
+  root: string
+): Promise<Record<string, string>> {
+  const origins: Record<string, string> = {};
+
+  const contentDir = join(root, 'src', 'content');
+  const collections = existsSync(contentDir)
+    ? (await fs.readdir(contentDir, { withFileTypes: true })).filter(entry => entry.isDirectory()).map(entry => entry.name)
+    : [];
+
+  for (const route of routes) {
+    const files = assets?.get(route.pattern) ?? route.distURL ?? [];
+
+    for (const url of files) {
+      const relativePath = toPosix(relative(buildDir, fileURLToPath(url)));
+      if (!relativePath.endsWith('.html')) {
+        continue;
+      }
+
+      let origin = route.entrypoint;
+
+      if (route.params.length > 0 && collections.length > 0) {
+        const match = pathnameForFile(relativePath).match(route.patternRegex);
+        const value = match?.slice(1).filter(Boolean).pop();
+        if (value) {
+          let slug: string | null = null;
+          try {
+            slug = decodeURIComponent(value);
+          } catch {
+            // Malformed percent-encoding, keep the route's entry point as the origin
+          }
+          if (slug) {
+            origin = findContentEntry(root, collections, slug) ?? origin;
+          }
+        }
+      }
+
+      origins[relativePath] = origin;
+    }
+  }
+
+  return origins;
+}
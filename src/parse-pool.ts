@@ -0,0 +1,121 @@
+import { Worker } from 'node:worker_threads';
+import type { Link } from './types';
+
+/**
+ * Reads the links and fragment targets of build files
+ */
+export interface FileParser {
+  links(filePath: string): Promise<Link[]>;
+  anchorIds(filePath: string): Promise<Set<string>>;
+}
+
+/**
+ * A file parser backed by worker threads
+ */
+export interface ParsePool extends FileParser {
+  size: number;
+  close(): Promise<void>;
+}
+
+/**
+ * What a parse worker is asked to do with a file
+ */
+export type ParseTask = 'links' | 'anchors';
+
+/**
+ * Message sent to a parse worker
+ */
+export interface ParseRequest {
+  id: number;
+  task: ParseTask;
+  filePath: string;
+}
+
+/**
+ * Message a parse worker sends back: the links or anchor ids of the file, or
+ * why it could not be parsed
+ */
+export interface ParseResponse {
+  id: number;
+  links?: Link[];
+  anchorIds?: string[];
+  error?: string;
+}
+
+/**
+ * A worker thread and the requests it hasn't answered yet
+ */
+interface PoolWorker {
+  worker: Worker;
+  pending: Map<number, { resolve: (response: ParseResponse) => void; reject: (error: Error) => void }>;
+}
+
+/**
+ * Start `size` worker threads that parse build files. Each request goes to the
+ * worker with the fewest requests in flight.
+ */
+export function createParsePool(size: number): ParsePool {
+  const workers: PoolWorker[] = [];
+  let nextId = 0;
+
+  for (let i = 0; i < size; i++) {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(new URL('./parse-worker.js', import.meta.url)),
+      pending: new Map()
+    };
+
+    poolWorker.worker.on('message', (response: ParseResponse) => {
+      const request = poolWorker.pending.get(response.id);
+      poolWorker.pending.delete(response.id);
+      request?.resolve(response);
+    });
+
+    // A worker that dies takes its requests with it, and gets no new ones
+    poolWorker.worker.on('error', (error) => {
+      workers.splice(workers.indexOf(poolWorker), 1);
+      for (const request of poolWorker.pending.values()) {
+        request.reject(error);
+      }
+      poolWorker.pending.clear();
+    });
+
+    workers.push(poolWorker);
+  }
+
+  const send = (task: ParseTask, filePath: string): Promise<ParseResponse> => {
+    if (workers.length === 0) {
+      return Promise.reject(new Error('No parse workers are running'));
+    }
+
+    const poolWorker = workers.reduce((least, candidate) =>
+      candidate.pending.size < least.pending.size ? candidate : least
+    );
+    const id = nextId++;
+
+    return new Promise<ParseResponse>((resolve, reject) => {
+      poolWorker.pending.set(id, { resolve, reject });
+      poolWorker.worker.postMessage({ id, task, filePath } satisfies ParseRequest);
+    }).then(response => {
+      if (response.error !== undefined) {
+        throw new Error(response.error);
+      }
+      return response;
+    });
+  };
+
+  return {
+    size,
+
+    async links(filePath) {
+      return (await send('links', filePath)).links ?? [];
+    },
+
+    async anchorIds(filePath) {
+      return new Set((await send('anchors', filePath)).anchorIds);
+    },
+
+    async close() {
+      await Promise.all(workers.map(({ worker }) => worker.terminate()));
+    }
+  };
+}
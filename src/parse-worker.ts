@@ -0,0 +1,22 @@
+import { parentPort } from 'node:worker_threads';
+import { extractLinksFromFile } from './link-checker.js';
+import { readAnchorIds } from './anchors.js';
+import type { ParseRequest, ParseResponse } from './parse-pool.js';
+
+/**
+ * Worker thread for the parse pool: reads each file it is sent and answers
+ * with its links or anchor ids
+ */
+parentPort!.on('message', async ({ id, task, filePath }: ParseRequest) => {
+  let response: ParseResponse;
+
+  try {
+    response = task === 'links'
+      ? { id, links: await extractLinksFromFile(filePath) }
+      : { id, anchorIds: [...await readAnchorIds(filePath)] };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  parentPort!.postMessage(response);
+});
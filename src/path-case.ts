@@ -0,0 +1,117 @@
+import { promises as fs, type Dirent } from 'node:fs';
+import { extname, join, relative, sep } from 'node:path';
+
+/**
+ * Cache of directory listings, shared across a single checkLinks run so each
+ * directory is read at most once
+ */
+export type DirectoryCache = Map<string, Promise<Dirent[] | null>>;
+
+/**
+ * A build file found by comparing each path segment against the real directory listing
+ */
+export interface CaseResolvedFile {
+  /**
+   * Absolute path of the file, named as it is on disk
+   */
+  file: string;
+  /**
+   * The looked-up path relative to the build directory (posix separators), with
+   * each segment spelled as it is on disk
+   */
+  correctedPath: string;
+  /**
+   * Whether any segment differs in case from the name on disk
+   */
+  caseMismatch: boolean;
+}
+
+/**
+ * Read a directory listing, reusing the cached result. Returns null for
+ * anything that can't be listed.
+ */
+function readDirectory(dir: string, cache: DirectoryCache): Promise<Dirent[] | null> {
+  let entries = cache.get(dir);
+
+  if (!entries) {
+    entries = fs.readdir(dir, { withFileTypes: true }).catch(() => null);
+    cache.set(dir, entries);
+  }
+
+  return entries;
+}
+
+/**
+ * Find a directory entry by name, preferring an exact match over one that only
+ * matches when case is ignored
+ */
+function findEntry(entries: Dirent[], name: string, exactOnly: boolean): Dirent | undefined {
+  const exact = entries.find(entry => entry.name === name);
+  if (exact || exactOnly) {
+    return exact;
+  }
+
+  const folded = name.toLowerCase();
+  return entries.find(entry => entry.name.toLowerCase() === folded);
+}
+
+/**
+ * Find the file a build path is served from, as a case-sensitive host would.
+ * Unlike `existsSync`, this gives the same answer on case-insensitive file
+ * systems: each segment is compared against the directory listing, and segments
+ * that only match with different case are corrected and flagged. Extensionless
+ * paths also try the `.html` file, and directories resolve to their index.html.
+ */
+export async function resolveBuildFileStrictCase(
+  filePath: string,
+  buildDir: string,
+  cache: DirectoryCache
+): Promise<CaseResolvedFile | null> {
+  const segments = relative(buildDir, filePath).split(sep).filter(Boolean);
+  const corrected: string[] = [];
+  let current = buildDir;
+  let caseMismatch = false;
+  let isDirectory = true;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const isLast = i === segments.length - 1;
+    const entries = isDirectory ? await readDirectory(current, cache) : null;
+    if (!entries) {
+      return null;
+    }
+
+    // Exact names win over the `.html` page, which wins over names that only match ignoring case
+    const lookups = isLast && !extname(segment)
+      ? [[segment, true], [segment + '.html', true], [segment, false], [segment + '.html', false]] as const
+      : [[segment, true], [segment, false]] as const;
+    let entry: Dirent | undefined;
+    let isPage = false;
+    for (const [candidate, exactOnly] of lookups) {
+      entry = findEntry(entries, candidate, exactOnly);
+      if (entry) {
+        isPage = candidate !== segment;
+        break;
+      }
+    }
+
+    if (!entry || (!isLast && !entry.isDirectory())) {
+      return null;
+    }
+
+    const name = isPage ? entry.name.slice(0, -'.html'.length) : entry.name;
+    caseMismatch ||= name !== segment;
+    corrected.push(name);
+    current = join(current, entry.name);
+    isDirectory = entry.isDirectory();
+  }
+
+  if (isDirectory) {
+    const entries = await readDirectory(current, cache);
+    if (entries && findEntry(entries, 'index.html', true)?.isFile()) {
+      current = join(current, 'index.html');
+    }
+  }
+
+  return { file: current, correctedPath: corrected.join('/'), caseMismatch };
+}
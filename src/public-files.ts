@@ -0,0 +1,21 @@
+import { statSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Whether a path names a file, or a directory with an index.html, in `public/`
+ */
+export function isPublicFile(publicDir: string, path: string): boolean {
+  const filePath = join(publicDir, path);
+
+  for (const candidate of [filePath, join(filePath, 'index.html')]) {
+    try {
+      if (statSync(candidate).isFile()) {
+        return true;
+      }
+    } catch {
+      // Not there, try the next candidate
+    }
+  }
+
+  return false;
+}
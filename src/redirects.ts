@@ -5,8 +5,18 @@ export interface RedirectRule {
   from: string;
   to: string;
   status: number;
+  /**
+   * When false, the rule only applies if no file exists at the source path
+   * (Netlify's shadowing, Vercel rewrites). When unset the rule always applies.
+   */
+  force?: boolean;
 }
 
+/**
+ * Redirect file formats understood by loadRedirects
+ */
+export type RedirectsFormat = 'redirects' | 'vercel' | 'netlify-toml';
+
 /**
  * Parse a _redirects file content into RedirectRule objects
  */
@@ -37,115 +47,329 @@ export function parseRedirects(content: string): RedirectRule[] {
 }
 
 /**
- * Load and parse redirects file from build directory or custom path
+ * Convert a Vercel path pattern to the wildcard syntax used by RedirectRule.
+ * Repeating parameters (`:path*`, `:path+`, `:path(.*)`), bare `(.*)` groups
+ * and `$1` references become a splat.
  */
-export async function loadRedirects(buildDir: string, redirectsFile?: string): Promise<RedirectRule[]> {
-  if (!redirectsFile) {
-    return []; // No redirects file specified, return empty array
+function convertVercelPattern(pattern: string, splat: string): string {
+  return pattern
+    .replace(/:(\w+)(?:\*|\+|\(\.\*\))/g, splat)
+    .replace(/\(\.\*\)|\$\d+/g, splat);
+}
+
+/**
+ * Parse a vercel.json file's `redirects` and `rewrites` into RedirectRule objects
+ */
+export function parseVercelRedirects(content: string): RedirectRule[] {
+  const config = JSON.parse(content) as {
+    redirects?: { source?: string; destination?: string; permanent?: boolean; statusCode?: number }[];
+    rewrites?: { source?: string; destination?: string }[];
+  };
+  const rules: RedirectRule[] = [];
+
+  for (const redirect of config.redirects ?? []) {
+    if (!redirect.source || !redirect.destination) {
+      continue;
+    }
+
+    rules.push({
+      from: convertVercelPattern(redirect.source, '*'),
+      to: convertVercelPattern(redirect.destination, ':splat'),
+      status: redirect.statusCode ?? (redirect.permanent === false ? 307 : 308),
+      force: true
+    });
   }
-  
-  // Determine the full path to the redirects file
-  let redirectsPath: string;
-  if (redirectsFile.startsWith('/')) {
-    // Absolute path
-    redirectsPath = redirectsFile;
-  } else {
-    // Relative path from build directory
-    redirectsPath = join(buildDir, redirectsFile);
+
+  // Rewrites are only consulted when the filesystem has no match
+  for (const rewrite of config.rewrites ?? []) {
+    if (!rewrite.source || !rewrite.destination) {
+      continue;
+    }
+
+    rules.push({
+      from: convertVercelPattern(rewrite.source, '*'),
+      to: convertVercelPattern(rewrite.destination, ':splat'),
+      status: 200,
+      force: false
+    });
   }
-  
-  try {
-    const content = await fs.readFile(redirectsPath, 'utf-8');
-    return parseRedirects(content);
-  } catch (error) {
-    // Redirects file doesn't exist or can't be read
-    console.warn(`Warning: Could not read redirects file at ${redirectsPath}:`, error instanceof Error ? error.message : error);
-    return [];
+
+  return rules;
+}
+
+/**
+ * Parse a single TOML value. Only strings, numbers and booleans are needed for
+ * redirect tables; anything else (inline tables, arrays) is returned as null.
+ */
+function parseTomlValue(raw: string): string | number | boolean | null {
+  const value = raw.trim();
+
+  if (value.startsWith('"')) {
+    const end = value.lastIndexOf('"');
+    return JSON.parse(value.slice(0, end + 1));
   }
+
+  if (value.startsWith("'")) {
+    return value.slice(1, value.indexOf("'", 1));
+  }
+
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+
+  const number = Number(value.replace(/_/g, ''));
+  return Number.isNaN(number) ? null : number;
 }
 
 /**
- * Find redirect rule for a given path
- * Supports simple wildcards like * and :lang placeholders
+ * Remove a trailing `# comment` that is not inside a quoted string
  */
-export function findRedirectRule(path: string, rules: RedirectRule[]): RedirectRule | null {
-  for (const rule of rules) {
-    if (matchesPattern(path, rule.from)) {
-      return rule;
+function stripTomlComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
     }
   }
-  
-  return null;
+
+  return line;
 }
 
 /**
- * Check if a path matches a redirect pattern
- * Supports basic wildcards (*) and named parameters (:param)
+ * Parse the `[[redirects]]` tables of a netlify.toml file into RedirectRule objects.
+ * This is not a general TOML parser: every other table is skipped.
  */
-function matchesPattern(path: string, pattern: string): boolean {
-  // Direct match
-  if (path === pattern) {
-    return true;
+export function parseNetlifyToml(content: string): RedirectRule[] {
+  const tables: Record<string, string | number | boolean | null>[] = [];
+  let current: Record<string, string | number | boolean | null> | null = null;
+
+  for (const line of content.split('\n')) {
+    const trimmed = stripTomlComment(line).trim();
+
+    if (!trimmed) {
+      continue;
+    }
+
+    if (trimmed.startsWith('[')) {
+      // Only the top level of each [[redirects]] entry holds from/to/status/force;
+      // sub-tables such as [redirects.headers] are ignored
+      current = trimmed.replace(/\s/g, '') === '[[redirects]]' ? {} : null;
+      if (current) tables.push(current);
+      continue;
+    }
+
+    const separator = trimmed.indexOf('=');
+    if (current && separator > 0) {
+      const key = trimmed.slice(0, separator).trim().replace(/^["']|["']$/g, '');
+      current[key] = parseTomlValue(trimmed.slice(separator + 1));
+    }
   }
-  
-  // Convert pattern to regex
-  const regexPattern = pattern
-    // Escape special regex characters except * and :
-    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-    // Handle named parameters like :lang
-    .replace(/:[\w]+/g, '([^/]+)')
-    // Handle wildcards
-    .replace(/\*/g, '(.*)');
-    
-  const regex = new RegExp(`^${regexPattern}$`);
-  return regex.test(path);
+
+  const rules: RedirectRule[] = [];
+
+  for (const table of tables) {
+    if (typeof table.from !== 'string' || typeof table.to !== 'string') {
+      continue;
+    }
+
+    rules.push({
+      from: table.from,
+      to: table.to,
+      status: typeof table.status === 'number' ? table.status : 301,
+      force: table.force === true
+    });
+  }
+
+  return rules;
 }
 
 /**
- * Apply redirect rule to resolve the final destination
- * Handles parameter substitution for patterns with :lang, *, etc.
+ * Convert an Astro route (`/blog/[slug]`, `/docs/[...path]`) to the wildcard
+ * syntax used by RedirectRule
  */
-export function applyRedirectRule(path: string, rule: RedirectRule): string {
-  // If no wildcards or parameters, return destination as-is
-  if (!rule.from.includes('*') && !rule.from.includes(':')) {
-    return rule.to;
+function convertAstroRoute(route: string, splat: string): string {
+  return route
+    .replace(/\[\.\.\.\w+\]/g, splat)
+    .replace(/\[(\w+)\]/g, ':$1');
+}
+
+/**
+ * Convert the `redirects` map from astro.config into RedirectRule objects.
+ * Astro routes are relative to the site base, so the base is prepended to both
+ * sides to match the hrefs found in the built HTML.
+ */
+export function parseAstroRedirects(
+  redirects: Record<string, string | { status: number; destination: string }>,
+  base: string = ''
+): RedirectRule[] {
+  const prefix = base.replace(/\/+$/, '');
+
+  return Object.entries(redirects).map(([route, target]) => {
+    const destination = typeof target === 'string' ? target : target.destination;
+    const to = convertAstroRoute(destination, ':splat');
+
+    return {
+      from: prefix + convertAstroRoute(route, '*'),
+      to: to.startsWith('/') ? prefix + to : to,
+      status: typeof target === 'string' ? 301 : target.status,
+      force: true
+    };
+  });
+}
+
+/**
+ * Work out which redirect format a file uses, from its name first and its
+ * content otherwise
+ */
+export function detectRedirectsFormat(filePath: string, content: string): RedirectsFormat {
+  const lowerPath = filePath.toLowerCase();
+
+  if (lowerPath.endsWith('.json')) {
+    return 'vercel';
+  }
+
+  if (lowerPath.endsWith('.toml')) {
+    return 'netlify-toml';
+  }
+
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('{')) {
+    return 'vercel';
+  }
+
+  if (/^\s*\[\[\s*redirects\s*\]\]/m.test(content)) {
+    return 'netlify-toml';
+  }
+
+  return 'redirects';
+}
+
+/**
+ * Parse redirects file content in any supported format
+ */
+export function parseRedirectsFile(filePath: string, content: string): RedirectRule[] {
+  switch (detectRedirectsFormat(filePath, content)) {
+    case 'vercel': return parseVercelRedirects(content);
+    case 'netlify-toml': return parseNetlifyToml(content);
+    default: return parseRedirects(content);
+  }
+}
+
+/**
+ * Load and parse redirects files from build directory or custom paths.
+ * Rules from several files are combined in the order the files are given.
+ */
+export async function loadRedirects(buildDir: string, redirectsFile?: string | string[]): Promise<RedirectRule[]> {
+  if (!redirectsFile) {
+    return []; // No redirects file specified, return empty array
   }
   
-  // Extract matches from the source pattern
-  const regexPattern = rule.from
-    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
-    .replace(/:[\w]+/g, '([^/]+)')
-    .replace(/\*/g, '(.*)');
+  const files = Array.isArray(redirectsFile) ? redirectsFile : [redirectsFile];
+  const rules: RedirectRule[] = [];
+
+  for (const file of files) {
+    // Determine the full path to the redirects file
+    let redirectsPath: string;
+    if (file.startsWith('/')) {
+      // Absolute path
+      redirectsPath = file;
+    } else {
+      // Relative path from build directory
+      redirectsPath = join(buildDir, file);
+    }
     
-  const regex = new RegExp(`^${regexPattern}$`);
-  const matches = path.match(regex);
-  
-  if (!matches) {
-    return rule.to;
+    try {
+      const content = await fs.readFile(redirectsPath, 'utf-8');
+      rules.push(...parseRedirectsFile(redirectsPath, content));
+    } catch (error) {
+      // Redirects file doesn't exist, can't be read or can't be parsed
+      console.warn(`Warning: Could not read redirects file at ${redirectsPath}:`, error instanceof Error ? error.message : error);
+    }
   }
-  
-  // Replace placeholders in destination
-  let destination = rule.to;
-  const captures = matches.slice(1); // Remove the full match
-  
-  // Replace :param patterns
-  const paramPattern = /:[\w]+/g;
-  let paramIndex = 0;
-  destination = destination.replace(paramPattern, () => {
-    return captures[paramIndex++] || '';
-  });
-  
-  // Replace * patterns
-  const wildcardPattern = /\*/g;
-  destination = destination.replace(wildcardPattern, () => {
-    return captures[paramIndex++] || '';
-  });
-  
-  // Handle :splat placeholder (common in Netlify redirects)
-  if (destination.includes(':splat')) {
-    const lastCapture = captures[captures.length - 1] || '';
-    destination = destination.replace(':splat', lastCapture);
+
+  return rules;
+}
+
+/**
+ * Drop a trailing slash so `/old/` and `/old` match the same rule, as hosts do
+ */
+function stripTrailingSlash(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, '') || '/' : path;
+}
+
+/**
+ * Compile a rule's source pattern. `:name` matches one path segment and `*` any
+ * number of them, including none when it follows a slash (`/blog/*` matches
+ * `/blog`). Returns the regex and the name of each capture, `splat` for `*`.
+ */
+function compilePattern(pattern: string): { regex: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = pattern.split(/(\/\*|\*|:\w+)/).map((part) => {
+    if (part === '/*') {
+      names.push('splat');
+      return '(?:/(.*))?';
+    }
+    if (part === '*') {
+      names.push('splat');
+      return '(.*)';
+    }
+    if (/^:\w+$/.test(part)) {
+      names.push(part.slice(1));
+      return '([^/]+)';
+    }
+    return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+
+  return { regex: new RegExp(`^${source}$`), names };
+}
+
+/**
+ * Match a path against a rule's source pattern, ignoring trailing slashes as
+ * hosts do. Returns the captured params by name, or null when it doesn't match.
+ */
+function matchRule(path: string, rule: RedirectRule): Map<string, string> | null {
+  for (const [candidate, pattern] of [[path, rule.from], [stripTrailingSlash(path), stripTrailingSlash(rule.from)]]) {
+    if (candidate === pattern) {
+      return new Map();
+    }
+
+    const { regex, names } = compilePattern(pattern);
+    const match = candidate.match(regex);
+    if (match) {
+      return new Map(names.map((name, index) => [name, match[index + 1] ?? '']));
+    }
   }
-  
-  return destination;
-}
\ No newline at end of file
+
+  return null;
+}
+
+/**
+ * Find redirect rule for a given path
+ * Supports `*` splats and named parameters like `:lang`
+ */
+export function findRedirectRule(path: string, rules: RedirectRule[]): RedirectRule | null {
+  return rules.find(rule => matchRule(path, rule) !== null) ?? null;
+}
+
+/**
+ * Apply redirect rule to resolve the final destination. Parameters are
+ * substituted by name, so `/a/:x/:y` to `/b/:y/:x` swaps them; `:splat` and `*`
+ * take what the source's `*` matched.
+ */
+export function applyRedirectRule(path: string, rule: RedirectRule): string {
+  const params = matchRule(path, rule);
+  if (!params || params.size === 0) {
+    return rule.to;
+  }
+
+  return rule.to.replace(/:(\w+)|\*/g, (token, name: string | undefined) => params.get(name ?? 'splat') ?? token);
+}
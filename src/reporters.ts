@@ -0,0 +1,331 @@
+import { promises as fs } from 'node:fs';
+import { dirname, relative, resolve, sep } from 'node:path';
+import type { BrokenLink, LinkCheckResult, RedirectHop, ReportFormat, ReportOptions } from './types';
+
+/**
+ * A broken link as it appears in reports, with the source file relative to the build directory
+ */
+interface ReportEntry {
+  href: string;
+  text: string;
+  type: BrokenLink['type'];
+  reason: BrokenLink['reason'];
+  severity?: BrokenLink['severity'];
+  error: string;
+  sourceFile: string;
+  originFile?: string;
+  source?: string;
+  redirectChain?: RedirectHop[];
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Human readable description of each reason, used for SARIF rules
+ */
+const REASON_DESCRIPTIONS: Record<BrokenLink['reason'], string> = {
+  'not-found': 'Link target does not exist',
+  'network-error': 'External link returned an error response',
+  'timeout': 'External link timed out',
+  'invalid': 'Link is invalid',
+  'missing-anchor': 'Link fragment does not match an id in the target page',
+  'trailing-slash': 'Link does not follow the trailing slash policy',
+  'absolute-self-link': 'Link uses an absolute URL to the site itself instead of a relative link',
+  'redirected': 'Link reaches its target through one or more redirects',
+  'case-mismatch': 'Link path differs in case from the file in the build'
+};
+
+/**
+ * Convert a path to the posix form used in every report format
+ */
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
+
+/**
+ * Get the path a finding's page is reported under: relative to the build
+ * directory, or the page URL itself for pages found by crawling a server
+ */
+export function toSourcePath(sourceFile: string, buildDir: string): string {
+  return /^https?:\/\//.test(sourceFile) ? sourceFile : toPosix(relative(buildDir, sourceFile));
+}
+
+/**
+ * Flatten broken links into report entries
+ */
+function toEntries(links: BrokenLink[], buildDir: string): ReportEntry[] {
+  return links.map(link => {
+    const entry: ReportEntry = {
+      href: link.href,
+      text: link.text,
+      type: link.type,
+      reason: link.reason,
+      error: link.error,
+      sourceFile: toSourcePath(link.sourceFile, buildDir)
+    };
+
+    if (link.severity) entry.severity = link.severity;
+    if (link.originFile) entry.originFile = link.originFile;
+    if (link.source) entry.source = link.source;
+    if (link.redirectChain) entry.redirectChain = link.redirectChain;
+    if (link.line !== undefined) entry.line = link.line;
+    if (link.column !== undefined) entry.column = link.column;
+
+    return entry;
+  });
+}
+
+/**
+ * Group report entries by source file, keeping the order files were first seen
+ */
+function groupBySourceFile(entries: ReportEntry[]): Map<string, ReportEntry[]> {
+  const groups = new Map<string, ReportEntry[]>();
+
+  for (const entry of entries) {
+    const group = groups.get(entry.sourceFile) ?? [];
+    group.push(entry);
+    groups.set(entry.sourceFile, group);
+  }
+
+  return groups;
+}
+
+/**
+ * Format a source location as `file:line:column`, leaving out unknown parts
+ */
+function formatLocation(entry: ReportEntry): string {
+  let location = entry.sourceFile;
+  if (entry.line !== undefined) {
+    location += `:${entry.line}`;
+    if (entry.column !== undefined) location += `:${entry.column}`;
+  }
+  return location;
+}
+
+/**
+ * Escape text for use in XML attributes and content
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape text for use in a Markdown table cell
+ */
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatJson(result: LinkCheckResult, entries: ReportEntry[], warnings: ReportEntry[]): string {
+  return JSON.stringify({
+    summary: {
+      totalLinks: result.totalLinks,
+      brokenLinks: result.brokenLinks.length,
+      warnings: warnings.length,
+      checkedFiles: result.checkedFiles.length,
+      skippedFiles: result.skippedFiles.length,
+      baselinedLinks: result.baselinedLinks?.length ?? 0
+    },
+    brokenLinks: entries,
+    warnings,
+    fixedBaselineEntries: result.fixedBaselineEntries ?? [],
+    ...(result.orphanPages ? { orphanPages: result.orphanPages } : {}),
+    ...(result.sitemapIssues ? { sitemapIssues: result.sitemapIssues } : {}),
+    ...(result.i18nIssues ? { i18nIssues: result.i18nIssues } : {}),
+    checkedFiles: result.checkedFiles.map(toPosix),
+    skippedFiles: result.skippedFiles.map(toPosix)
+  }, null, 2) + '\n';
+}
+
+/**
+ * JUnit XML with one test suite per checked file and one failing test case per broken link
+ */
+function formatJunit(result: LinkCheckResult, entries: ReportEntry[]): string {
+  const groups = groupBySourceFile(entries);
+  const suites: string[] = [];
+  let tests = 0;
+
+  for (const file of result.checkedFiles.map(toPosix)) {
+    const failures = groups.get(file) ?? [];
+
+    if (failures.length === 0) {
+      tests++;
+      suites.push(
+        `  <testsuite name="${escapeXml(file)}" tests="1" failures="0">\n` +
+        `    <testcase name="all links valid" classname="${escapeXml(file)}"/>\n` +
+        `  </testsuite>`
+      );
+      continue;
+    }
+
+    tests += failures.length;
+    const cases = failures.map(entry =>
+      `    <testcase name="${escapeXml(entry.href)}" classname="${escapeXml(file)}">\n` +
+      `      <failure message="${escapeXml(entry.error)}" type="${entry.reason}">` +
+      `${escapeXml(`${entry.type} link "${entry.text}" at ${formatLocation(entry)}${entry.originFile ? ` (from ${entry.originFile})` : ''}: ${entry.error}`)}</failure>\n` +
+      `    </testcase>`
+    );
+
+    suites.push(
+      `  <testsuite name="${escapeXml(file)}" tests="${failures.length}" failures="${failures.length}">\n` +
+      `${cases.join('\n')}\n` +
+      `  </testsuite>`
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="astro-link-validator" tests="${tests}" failures="${entries.length}">`,
+    ...suites,
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Where a finding is in the checked directory: the page relative to it, at the
+ * link's line and column. Crawled pages are located by their URL.
+ */
+function toBuildLocation(entry: ReportEntry): Record<string, unknown> {
+  const physicalLocation: Record<string, unknown> = {
+    artifactLocation: /^https?:\/\//.test(entry.sourceFile)
+      ? { uri: entry.sourceFile }
+      : { uri: entry.sourceFile, uriBaseId: 'BUILDDIR' }
+  };
+
+  if (entry.line !== undefined) {
+    physicalLocation.region = entry.column !== undefined
+      ? { startLine: entry.line, startColumn: entry.column }
+      : { startLine: entry.line };
+  }
+
+  return { physicalLocation };
+}
+
+/**
+ * SARIF 2.1.0 log with one rule per reason, as accepted by GitHub code scanning.
+ * Warnings are included at the `warning` level. Findings are located in the
+ * project file their page was built from when it is known, so annotations land
+ * on files in the repository; the built page is kept as a related location, as
+ * line numbers refer to it.
+ */
+function formatSarif(entries: ReportEntry[], warnings: ReportEntry[]): string {
+  const reasons = [...new Set([...entries, ...warnings].map(entry => entry.reason))];
+
+  const toResult = (entry: ReportEntry, level: 'error' | 'warning') => {
+    const buildLocation = toBuildLocation(entry);
+    const locations = entry.originFile
+      ? { locations: [{ physicalLocation: { artifactLocation: { uri: entry.originFile, uriBaseId: 'PROJECTROOT' } } }], relatedLocations: [buildLocation] }
+      : { locations: [buildLocation] };
+
+    return {
+      ruleId: entry.reason,
+      level,
+      message: { text: `${entry.href}: ${entry.error}` },
+      ...locations,
+      properties: { href: entry.href, text: entry.text, type: entry.type, source: entry.source, originFile: entry.originFile }
+    };
+  };
+
+  const results = [
+    ...entries.map(entry => toResult(entry, 'error')),
+    ...warnings.map(entry => toResult(entry, 'warning'))
+  ];
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'astro-link-validator',
+          informationUri: 'https://github.com/rodgtr1/astro-link-validator',
+          rules: reasons.map(reason => ({
+            id: reason,
+            shortDescription: { text: REASON_DESCRIPTIONS[reason] }
+          }))
+        }
+      },
+      originalUriBaseIds: {
+        PROJECTROOT: { description: { text: 'Root of the Astro project' } },
+        BUILDDIR: { description: { text: 'Directory that was checked: the build output, or the project root for Markdown sources' } }
+      },
+      results
+    }]
+  }, null, 2) + '\n';
+}
+
+/**
+ * Markdown summary grouped by source file, suitable for a pull request comment
+ */
+function formatMarkdown(result: LinkCheckResult, entries: ReportEntry[]): string {
+  const lines = [
+    '## 🔗 Link Validation',
+    '',
+    `Checked ${result.totalLinks} links across ${result.checkedFiles.length} files.`,
+    ''
+  ];
+
+  if (entries.length === 0) {
+    lines.push('🎉 No broken links found!', '');
+    return lines.join('\n');
+  }
+
+  lines.push(`❌ Found ${entries.length} broken links:`, '');
+
+  for (const [file, group] of groupBySourceFile(entries)) {
+    const origin = group[0].originFile ? ` (from \`${group[0].originFile}\`)` : '';
+    lines.push(`### \`${file}\`${origin}`, '', '| Link | Type | Reason | Error |', '| --- | --- | --- | --- |');
+
+    for (const entry of group) {
+      const line = entry.line !== undefined ? ` (line ${entry.line})` : '';
+      lines.push(`| \`${escapeMarkdown(entry.href)}\`${line} | ${entry.type} | ${entry.reason} | ${escapeMarkdown(entry.error)} |`);
+    }
+
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a link check result in the given report format
+ */
+export function formatReport(result: LinkCheckResult, format: ReportFormat, buildDir: string): string {
+  const entries = toEntries(result.brokenLinks, buildDir);
+  const warnings = toEntries(result.warnings ?? [], buildDir);
+
+  switch (format) {
+    case 'json': return formatJson(result, entries, warnings);
+    case 'junit': return formatJunit(result, entries);
+    case 'sarif': return formatSarif(entries, warnings);
+    case 'markdown': return formatMarkdown(result, entries);
+    default: throw new Error(`Unknown report format: ${format}`);
+  }
+}
+
+/**
+ * Write a link check result to every configured report file.
+ * Relative output paths are resolved from the current working directory.
+ */
+export async function writeReports(
+  result: LinkCheckResult,
+  buildDir: string,
+  reports: ReportOptions | ReportOptions[]
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const report of Array.isArray(reports) ? reports : [reports]) {
+    const outputPath = resolve(report.outputFile);
+    await fs.mkdir(dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, formatReport(result, report.format, buildDir), 'utf-8');
+    written.push(outputPath);
+  }
+
+  return written;
+}
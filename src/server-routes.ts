@@ -0,0 +1,84 @@
+import type { ServerRoute, ServerRoutePath } from './types';
+
+/**
+ * An on-demand route, with the params it serves when `serverRoutePaths` lists them
+ */
+export interface ResolvedServerRoute extends ServerRoute {
+  /**
+   * Keys of the params the route has pages for, or null when it accepts any
+   */
+  paths: Set<string> | null;
+}
+
+/**
+ * A path matched against an on-demand route
+ */
+export interface ServerRouteMatch {
+  route: ResolvedServerRoute;
+  params: Record<string, string | undefined>;
+  /**
+   * Whether the route has a page for these params
+   */
+  exists: boolean;
+}
+
+/**
+ * Key for a set of param values, in the route's param order. An empty rest
+ * param is the same as a missing one, as it is in `getStaticPaths`.
+ */
+function paramsKey(route: ServerRoute, params: ServerRoutePath['params']): string {
+  return JSON.stringify(route.params.map(name => {
+    const value = params[name];
+    return value === undefined || value === '' ? null : String(value);
+  }));
+}
+
+/**
+ * Call the `serverRoutePaths` function of each route that has one, once per run
+ */
+export async function resolveServerRoutes(
+  routes: ServerRoute[],
+  serverRoutePaths: Record<string, () => ServerRoutePath[] | Promise<ServerRoutePath[]>>
+): Promise<ResolvedServerRoute[]> {
+  for (const pattern of Object.keys(serverRoutePaths)) {
+    if (!routes.some(route => route.pattern === pattern)) {
+      console.warn(`Warning: serverRoutePaths lists paths for ${pattern}, which is not an on-demand route`);
+    }
+  }
+
+  return Promise.all(routes.map(async (route) => {
+    const getPaths = serverRoutePaths[route.pattern];
+    if (!getPaths) {
+      return { ...route, paths: null };
+    }
+
+    const paths = await getPaths();
+    return { ...route, paths: new Set(paths.map(path => paramsKey(route, path.params))) };
+  }));
+}
+
+/**
+ * Find the first on-demand route serving a path relative to the site base. The
+ * path matches with or without its trailing slash; the link's slash is checked
+ * against the trailing slash policy separately.
+ */
+export function matchServerRoute(path: string, routes: ResolvedServerRoute[]): ServerRouteMatch | null {
+  const toggled = path.endsWith('/') ? path.replace(/\/+$/, '') || '/' : `${path}/`;
+
+  for (const route of routes) {
+    const match = route.patternRegex.exec(path) ?? route.patternRegex.exec(toggled);
+    if (match) {
+      const params = Object.fromEntries(route.params.map((name, index) => [name, match[index + 1]]));
+      return { route, params, exists: route.paths === null || route.paths.has(paramsKey(route, params)) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describe a match's params for messages, e.g. 'id=42, lang=en'
+ */
+export function describeParams(match: ServerRouteMatch): string {
+  return match.route.params.map(name => `${name}=${match.params[name] ?? ''}`).join(', ');
+}
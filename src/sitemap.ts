@@ -0,0 +1,175 @@
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { load } from 'cheerio';
+import type { LinkGraph, SitemapIssue } from './types';
+
+/**
+ * Sitemap files looked for at the root of the build, in order. @astrojs/sitemap
+ * writes a sitemap-index.xml that points at sitemap-0.xml, sitemap-1.xml, ...
+ */
+const SITEMAP_FILES = ['sitemap-index.xml', 'sitemap.xml'];
+
+/**
+ * Guard against sitemap indexes that point at each other
+ */
+const MAX_SITEMAP_FILES = 1000;
+
+/**
+ * A page URL listed in a sitemap
+ */
+export interface SitemapEntry {
+  url: string;
+  /**
+   * Sitemap file listing the URL, relative to the build directory
+   */
+  sitemapFile: string;
+}
+
+/**
+ * Get the path of a sitemap URL relative to the site base, or null when the
+ * URL is not under the base
+ */
+export function sitemapUrlToPath(url: string, base: string): string | null {
+  let pathname: string;
+  try {
+    pathname = decodeURI(new URL(url, 'https://sitemap.invalid').pathname);
+  } catch {
+    return null;
+  }
+
+  if (!base) {
+    return pathname;
+  }
+
+  if (pathname !== base && !pathname.startsWith(base + '/')) {
+    return null;
+  }
+
+  return pathname.substring(base.length) || '/';
+}
+
+/**
+ * Load the page URLs listed in the build's sitemap, following sitemap index
+ * files to the sitemaps they list. Returns null when the build has no sitemap.
+ */
+export async function loadSitemap(buildDir: string, base: string = ''): Promise<SitemapEntry[] | null> {
+  const pending: string[] = [];
+
+  for (const file of SITEMAP_FILES) {
+    try {
+      await fs.access(join(buildDir, file));
+      pending.push(file);
+      break;
+    } catch {
+      // Try the next name
+    }
+  }
+
+  if (pending.length === 0) {
+    return null;
+  }
+
+  const entries: SitemapEntry[] = [];
+  const visited = new Set<string>();
+
+  while (pending.length > 0 && visited.size < MAX_SITEMAP_FILES) {
+    const file = pending.shift()!;
+    if (visited.has(file)) {
+      continue;
+    }
+    visited.add(file);
+
+    let xml: string;
+    try {
+      xml = await fs.readFile(join(buildDir, file), 'utf-8');
+    } catch {
+      console.warn(`Warning: Sitemap ${file} is listed in the sitemap index but was not found in the build`);
+      continue;
+    }
+
+    const $ = load(xml, { xml: true });
+
+    $('sitemapindex > sitemap > loc').each((_, element) => {
+      const path = sitemapUrlToPath($(element).text().trim(), base);
+      if (path) {
+        pending.push(path.substring(1));
+      }
+    });
+
+    $('urlset > url > loc').each((_, element) => {
+      entries.push({ url: $(element).text().trim(), sitemapFile: file });
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Strip the trailing slash from a URL path so '/about' and '/about/' compare equal
+ */
+function normalizePath(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+/**
+ * Cross-check sitemap entries against the build: every URL must be on the site's
+ * host and resolve to a built file or redirect, and every page other pages link
+ * to must be listed. `resolvePath` checks a root-relative path (including the base).
+ */
+export async function validateSitemap(
+  entries: SitemapEntry[],
+  graph: LinkGraph,
+  options: {
+    site?: string;
+    base: string;
+    resolvePath: (path: string, entry: SitemapEntry) => Promise<boolean>;
+  }
+): Promise<SitemapIssue[]> {
+  const issues: SitemapIssue[] = [];
+  const siteHost = options.site ? new URL(options.site).host : null;
+  const listed = new Set<string>();
+
+  for (const entry of entries) {
+    let url: URL;
+    try {
+      url = new URL(entry.url);
+    } catch {
+      issues.push({ ...entry, reason: 'not-found', error: `Invalid sitemap URL: ${entry.url}` });
+      continue;
+    }
+
+    if (siteHost && url.host !== siteHost) {
+      issues.push({ ...entry, reason: 'wrong-host', error: `URL is on ${url.host}, not the site host ${siteHost}` });
+      continue;
+    }
+
+    const path = sitemapUrlToPath(entry.url, options.base);
+    if (path !== null) {
+      listed.add(normalizePath(path));
+    }
+
+    let pathname = url.pathname;
+    try {
+      pathname = decodeURI(pathname);
+    } catch {
+      // Malformed escapes are looked up as written
+    }
+
+    if (!await options.resolvePath(pathname, entry)) {
+      issues.push({ ...entry, reason: 'not-found', error: `Sitemap URL does not resolve to a built page or redirect: ${url.pathname}` });
+    }
+  }
+
+  for (const page of graph.pages) {
+    if (page.inDegree > 0 && !listed.has(normalizePath(page.url))) {
+      issues.push({
+        url: page.url,
+        page: page.page,
+        reason: 'missing-from-sitemap',
+        error: `Page is linked from ${page.inDegree} other pages but is not in the sitemap`
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,255 @@
+import { promises as fs, statSync } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import { applySeverityRules, checkTrailingSlash, matchesExcludePattern } from './link-checker.js';
+import { extractLinksFromMarkdown, extractMarkdownAnchorIds } from './markdown-links.js';
+import { findClosestAnchors, hasAnchor } from './anchors.js';
+import { createExternalScheduler, toExternalSchedulerSettings, type ExternalScheduler } from './external-links.js';
+import { isPublicFile } from './public-files.js';
+import { parseAstroRedirects, findRedirectRule, type RedirectRule } from './redirects.js';
+import type { AstroProjectConfig, BrokenLink, Link, LinkCheckResult, LinkValidatorOptions } from './types';
+
+/**
+ * Extensions of the files in `src/pages` that become routes: pages and endpoints
+ */
+const ROUTE_EXTENSIONS = ['.astro', '.md', '.markdown', '.mdx', '.html', '.js', '.ts', '.mjs', '.mts'];
+
+/**
+ * Markdown sources to check, relative to the source directory. Pages under a
+ * name starting with `_` aren't rendered.
+ */
+const SOURCE_PATTERNS = [/^content\/.+\.mdx?$/, /^pages\/(?:[^_/][^/]*\/)*[^_/][^/]*\.md$/];
+
+/**
+ * What a source check resolves links against
+ */
+interface SourceCheckContext {
+  projectRoot: string;
+  publicDir: string;
+  /**
+   * Patterns of the paths `src/pages` serves, relative to the site base
+   */
+  routes: RegExp[];
+  redirects: RedirectRule[];
+  /**
+   * Site base path without a trailing slash ('' when the site is served from the root)
+   */
+  base: string;
+  trailingSlash: 'always' | 'never' | 'ignore';
+}
+
+/**
+ * List the files under a directory, relative to it with posix separators.
+ * A missing directory has no files.
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile())
+      .map(entry => relative(dir, join(entry.parentPath ?? entry.path, entry.name)).split(sep).join('/'))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the pattern of paths a file in `src/pages` serves, as Astro does: `index`
+ * serves its directory, `[param]` matches one segment and `[...rest]` any number,
+ * including none. Files and directories starting with `_` aren't routes.
+ */
+function pageFileToRoutePattern(file: string): RegExp | null {
+  const extension = ROUTE_EXTENSIONS.find(ext => file.endsWith(ext));
+  if (!extension) {
+    return null;
+  }
+
+  const segments = file.slice(0, -extension.length).split('/');
+  if (segments.some(segment => segment.startsWith('_'))) {
+    return null;
+  }
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+
+  const pattern = segments.map((segment) => {
+    if (/^\[\.\.\.[^\]]+\]$/.test(segment)) {
+      return '(?:\\/(.*?))?';
+    }
+
+    return '\\/' + segment
+      .split(/(\[(?:\.\.\.)?[^\]]+\])/)
+      .map(part => part.startsWith('[...') ? '(.*?)' : part.startsWith('[') ? '([^/]+?)' : escapeRegExp(part))
+      .join('');
+  }).join('');
+
+  return pattern ? new RegExp(`^${pattern}\\/?$`) : /^\/$/;
+}
+
+/**
+ * Whether a file exists
+ */
+function fileExists(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find what is wrong with a link in a Markdown source, or null when it resolves.
+ * Root-relative links resolve against the pages, `redirects` and `public/`;
+ * relative images resolve against the source file, as Astro's image handling
+ * does. Relative page links depend on the URL the source ends up at and are
+ * left to the build check.
+ */
+function findSourceLinkProblem(link: Link, context: SourceCheckContext, anchorIds: () => Set<string>): BrokenLink | null {
+  const hashIndex = link.href.indexOf('#');
+  const path = (hashIndex === -1 ? link.href : link.href.slice(0, hashIndex)).split('?')[0];
+
+  // Anchor-only links point at the source's own headings
+  if (path === '' && hashIndex !== -1) {
+    const fragment = link.href.slice(hashIndex + 1);
+    if (hasAnchor(fragment, anchorIds())) {
+      return null;
+    }
+
+    const suggestions = findClosestAnchors(fragment, anchorIds());
+    const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.map(id => '#' + id).join(', ')}?)` : '';
+    return {
+      ...link,
+      error: `Anchor #${fragment} not found in this file${hint}`,
+      reason: 'missing-anchor',
+      ...(suggestions.length > 0 ? { suggestions } : {})
+    };
+  }
+
+  let decodedPath: string;
+  try {
+    decodedPath = decodeURIComponent(path);
+  } catch {
+    return { ...link, error: 'Invalid URL encoding', reason: 'invalid' };
+  }
+
+  if (!path.startsWith('/')) {
+    // Images in HTML tags aren't processed, so they resolve against the page URL too
+    if (link.type !== 'asset' || link.source === 'img[src]' || path === '') {
+      return null;
+    }
+
+    const filePath = resolve(dirname(link.sourceFile), decodedPath);
+    return fileExists(filePath)
+      ? null
+      : { ...link, error: `File not found: ${relative(context.projectRoot, filePath).split(sep).join('/')}`, reason: 'not-found' };
+  }
+
+  const { base } = context;
+  if (base && path !== base && !path.startsWith(`${base}/`)) {
+    return { ...link, error: `Link is outside the site base ${base}/`, reason: 'not-found' };
+  }
+
+  const sitePath = decodedPath.slice(base.length) || '/';
+  if (isPublicFile(context.publicDir, sitePath) || findRedirectRule(path, context.redirects)) {
+    return null;
+  }
+
+  const toggled = sitePath.endsWith('/') ? sitePath.replace(/\/+$/, '') || '/' : `${sitePath}/`;
+  if (!context.routes.some(route => route.test(sitePath) || route.test(toggled))) {
+    return { ...link, error: `No page or public file for ${path}`, reason: 'not-found' };
+  }
+
+  return checkTrailingSlash(link, path, context);
+}
+
+/**
+ * Check the links of one Markdown source
+ */
+async function checkSourceFile(
+  filePath: string,
+  context: SourceCheckContext,
+  exclude: string[],
+  externalScheduler: ExternalScheduler | null
+): Promise<{ links: Link[]; brokenLinks: BrokenLink[] }> {
+  const source = await fs.readFile(filePath, 'utf-8');
+  const links = extractLinksFromMarkdown(source, filePath);
+  let ids: Set<string> | null = null;
+  const anchorIds = () => ids ??= extractMarkdownAnchorIds(source);
+
+  const results = await Promise.all(links.map(async (link) => {
+    if (exclude.some(pattern => matchesExcludePattern(link.href, pattern))) {
+      return null;
+    }
+
+    return link.type === 'external'
+      ? await externalScheduler?.check(link) ?? null
+      : findSourceLinkProblem(link, context, anchorIds);
+  }));
+
+  return { links, brokenLinks: results.filter((link): link is BrokenLink => link !== null) };
+}
+
+/**
+ * Check the links in a project's Markdown and MDX sources without building it:
+ * Markdown and MDX under `src/content/` and Markdown pages under `src/pages/`.
+ * Findings point at the line and column of each link in its source file, and
+ * `checkedFiles` lists the sources relative to the project root.
+ */
+export async function checkSourceLinks(
+  projectRoot: string,
+  options: LinkValidatorOptions = {},
+  projectConfig: AstroProjectConfig = {}
+): Promise<LinkCheckResult> {
+  const root = resolve(projectRoot);
+  const srcDir = resolve(root, projectConfig.srcDir ?? 'src');
+  const pagesDir = join(srcDir, 'pages');
+  const base = (projectConfig.base ?? '').replace(/\/+$/, '');
+
+  const context: SourceCheckContext = {
+    projectRoot: root,
+    publicDir: resolve(root, projectConfig.publicDir ?? 'public'),
+    routes: (await listFiles(pagesDir))
+      .map(pageFileToRoutePattern)
+      .filter((pattern): pattern is RegExp => pattern !== null),
+    redirects: projectConfig.redirects ? parseAstroRedirects(projectConfig.redirects, base) : [],
+    base,
+    trailingSlash: projectConfig.trailingSlash ?? 'ignore'
+  };
+
+  const sources = (await listFiles(srcDir)).filter(file => SOURCE_PATTERNS.some(pattern => pattern.test(file)));
+  if (options.verbose) {
+    (options.logger ?? console.log)(`📝 Checking links in ${sources.length} Markdown sources against ${context.routes.length} routes`);
+  }
+
+  const externalScheduler = options.checkExternal
+    ? createExternalScheduler(toExternalSchedulerSettings(options))
+    : null;
+
+  const exclude = options.exclude ?? [];
+  const fileResults = await Promise.all(sources.map(file => checkSourceFile(join(srcDir, file), context, exclude, externalScheduler)));
+
+  const result: LinkCheckResult = {
+    totalLinks: 0,
+    brokenLinks: [],
+    warnings: [],
+    checkedFiles: [],
+    skippedFiles: []
+  };
+
+  fileResults.forEach(({ links, brokenLinks }, index) => {
+    const findings = applySeverityRules({ brokenLinks, warnings: [] }, options.rules ?? [], root);
+    result.totalLinks += links.length;
+    result.brokenLinks.push(...findings.brokenLinks);
+    result.warnings!.push(...findings.warnings);
+    result.checkedFiles.push(relative(root, join(srcDir, sources[index])).split(sep).join('/'));
+  });
+
+  return result;
+}
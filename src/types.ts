@@ -9,6 +9,13 @@ export interface LinkValidatorOptions {
    */
   failOnBrokenLinks?: boolean;
 
+  /**
+   * Rules that set the severity of findings by link type, reason and href or
+   * source file pattern. Broken links default to `error` and warnings to `warn`;
+   * the last matching rule wins. Only `error` findings fail the build.
+   */
+  rules?: SeverityRule[];
+
   /**
    * Patterns to exclude from link validation, matched against the link href.
    * A `*` matches any run of characters (e.g. '/admin/*', '*.pdf');
@@ -18,7 +25,8 @@ export interface LinkValidatorOptions {
 
   /**
    * Wildcard patterns for files to check, matched against paths relative to the
-   * build directory (default: ['** /*.html'])
+   * build directory (default: ['** /*.html', '** /*.css']). Matched .css files are
+   * scanned as stylesheets
    */
   include?: string[];
 
@@ -27,17 +35,436 @@ export interface LinkValidatorOptions {
    */
   externalTimeout?: number;
 
+  /**
+   * Maximum number of external requests in flight at once (default: 10)
+   */
+  externalConcurrency?: number;
+
+  /**
+   * Maximum number of requests in flight to any single host (default: 2)
+   */
+  externalHostConcurrency?: number;
+
+  /**
+   * How many times to retry an external URL that returns 429 or 503 or times out (default: 2)
+   */
+  externalRetries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled on each further retry.
+   * A Retry-After header takes precedence. (default: 1000)
+   */
+  externalRetryDelay?: number;
+
+  /**
+   * HTTP status codes to accept as valid in addition to 2xx (e.g. [403, 999])
+   */
+  acceptedStatusCodes?: number[];
+
+  /**
+   * Request settings for specific external hosts, keyed by hostname.
+   * A key starting with `*.` also matches every subdomain (e.g. '*.example.com').
+   */
+  externalDomains?: Record<string, ExternalDomainOptions>;
+
+  /**
+   * Cache external link results on disk between runs (default: false).
+   * `true` uses node_modules/.cache/astro-link-validator/external-links.json.
+   */
+  externalCache?: boolean | ExternalCacheOptions;
+
+  /**
+   * Keep a manifest of each built file's content hash, links and results, so the
+   * next run re-parses only changed files and re-resolves only links whose
+   * targets changed (default: false). `true` uses
+   * node_modules/.cache/astro-link-validator/manifest.json.
+   */
+  incremental?: boolean | IncrementalOptions;
+
+  /**
+   * Worker threads to parse pages and extract links on. 0 parses on the main thread.
+   * (default: one per CPU core after the first, up to 8, with at least 100 files per worker)
+   */
+  parseWorkers?: number;
+
   /**
    * Whether to show verbose output (default: false)
    */
   verbose?: boolean;
 
   /**
-   * Path to redirects file (relative to build directory or absolute path)
+   * Function verbose progress lines are printed with (default: console.log)
+   */
+  logger?: (message: string) => void;
+
+  /**
+   * Path to redirects file (relative to build directory or absolute path), or a list of them
    * When provided, the validator will respect redirect rules before marking links as broken
-   * Common formats: '_redirects' (Netlify), 'vercel.json', 'netlify.toml'
+   * Supported formats: '_redirects' (Netlify/Cloudflare), 'vercel.json', 'netlify.toml'.
+   * The format is detected from the file name, falling back to the file content.
+   */
+  redirectsFile?: string | string[];
+
+  /**
+   * Write the results to one or more report files (relative paths are resolved
+   * from the current working directory)
+   */
+  report?: ReportOptions | ReportOptions[];
+
+  /**
+   * Path to a baseline file of known broken links (relative paths are resolved
+   * from the current working directory). Broken links recorded in the baseline
+   * are reported separately and don't fail the build; only new ones do.
+   */
+  baselineFile?: string;
+
+  /**
+   * Write the current broken links to `baselineFile` instead of checking against it (default: false)
+   */
+  updateBaseline?: boolean;
+
+  /**
+   * Report built pages that no other page links to (default: false)
+   */
+  orphanPages?: boolean | OrphanPageOptions;
+
+  /**
+   * Write the page-to-page link graph to one or more files (relative paths are
+   * resolved from the current working directory)
+   */
+  linkGraph?: LinkGraphOptions | LinkGraphOptions[];
+
+  /**
+   * Cross-check the build's sitemap against the built pages (default: false)
+   */
+  checkSitemap?: boolean;
+
+  /**
+   * Check the hreflang alternates and cross-locale links of multilingual sites,
+   * using Astro's `i18n` config (default: false)
+   */
+  checkI18n?: boolean;
+
+  /**
+   * Origins whose absolute URLs are links into this site (e.g. ['https://example.com']).
+   * They are checked against the build instead of over the network.
+   * (default: the origin of Astro's `site`)
+   */
+  siteOrigins?: string[];
+
+  /**
+   * Report internal links that reach their target through redirect rules, so they
+   * can be updated to point at the final destination (default: false).
+   * They are warnings unless they exceed the limits in RedirectedLinkOptions.
+   */
+  redirectedLinks?: boolean | RedirectedLinkOptions;
+
+  /**
+   * Compare every path segment of internal links against the real directory
+   * listing, as case-sensitive hosts such as Netlify do, on every OS. Links that
+   * only resolve with different case are reported as `case-mismatch`. (default: false)
+   */
+  caseSensitivePaths?: boolean;
+
+  /**
+   * Warn about absolute links to a site origin in page content, suggesting a
+   * root-relative link instead. Canonical, alternate and meta tag URLs are exempt. (default: false)
+   */
+  warnOnAbsoluteSelfLinks?: boolean;
+
+  /**
+   * Check internal links with HTTP requests to a running server (such as
+   * `astro preview`) instead of against the build directory, for server-rendered
+   * routes, middleware rewrites and adapters that have no HTML file to check
+   */
+  crawl?: CrawlOptions;
+
+  /**
+   * The param values that exist for on-demand routes, keyed by route pattern
+   * (e.g. '/products/[id]'). Each function returns paths the way `getStaticPaths`
+   * does; links to the route with any other params are reported as not found.
+   * Routes without an entry accept any params.
+   */
+  serverRoutePaths?: Record<string, () => ServerRoutePath[] | Promise<ServerRoutePath[]>>;
+
+  /**
+   * During `astro dev`, check the links of every page the dev server renders and
+   * list broken ones in a Dev Toolbar app. `false` turns it off. (default: true)
    */
-  redirectsFile?: string;
+  devToolbar?: boolean | DevToolbarOptions;
+
+  /**
+   * Before `astro build` starts, check the links in Markdown and MDX sources
+   * (`src/content/**` and Markdown pages), reporting them at their line in the
+   * source file (default: false)
+   */
+  checkSources?: boolean;
+}
+
+/**
+ * How a finding is treated: `error` fails the build, `warn` is reported only,
+ * `off` drops it
+ */
+export type Severity = 'error' | 'warn' | 'off';
+
+/**
+ * Reasons of every kind of finding rules can match: broken links and warnings,
+ * orphan pages, and sitemap and i18n issues
+ */
+export type FindingReason = BrokenLink['reason'] | OrphanPage['reason'] | SitemapIssue['reason'] | I18nIssue['reason'];
+
+export interface SeverityRule {
+  /**
+   * Link types the rule applies to (default: all)
+   */
+  type?: Link['type'] | Link['type'][];
+
+  /**
+   * Finding reasons the rule applies to (default: all)
+   */
+  reason?: FindingReason | FindingReason[];
+
+  /**
+   * Pattern matched against the link href, as in `exclude` (e.g. '/legacy/*'), or
+   * the URL a sitemap or i18n issue is about
+   */
+  href?: string;
+
+  /**
+   * Pattern matched against the page path relative to the build directory, as in `include`
+   */
+  sourceFile?: string;
+
+  severity: Severity;
+}
+
+export interface RedirectedLinkOptions {
+  /**
+   * Report links that follow more than this many redirects as errors
+   */
+  maxHops?: number;
+
+  /**
+   * Report links that follow a temporary (302, 303 or 307) redirect as errors (default: false)
+   */
+  failOnTemporary?: boolean;
+}
+
+export interface OrphanPageOptions {
+  /**
+   * Pages that are reachable without a link, so never orphans. Patterns starting
+   * with `/` match the page URL relative to the site base; others match the file
+   * path relative to the build directory. (default: ['/', '404.html'])
+   */
+  entryPoints?: string[];
+
+  /**
+   * Treat pages listed in the build's sitemap as entry points (default: false)
+   */
+  sitemap?: boolean;
+}
+
+/**
+ * Link graph export formats
+ */
+export type LinkGraphFormat = 'json' | 'dot';
+
+export interface LinkGraphOptions {
+  format: LinkGraphFormat;
+  outputFile: string;
+}
+
+export interface CrawlOptions {
+  /**
+   * URL of the running server, with the site base if it has one (e.g. 'http://localhost:4321/docs/').
+   * Only pages under it are crawled.
+   */
+  url: string;
+  /**
+   * Paths under `url` to start crawling from (default: the URL of every prerendered
+   * page in the build directory, or `url` itself when there are none)
+   */
+  seeds?: string[];
+  /**
+   * Stop after this many pages (default: 10000)
+   */
+  maxPages?: number;
+  /**
+   * Requests in flight to the server at once (default: `externalConcurrency`)
+   */
+  concurrency?: number;
+}
+
+export interface ServerRoutePath {
+  params: Record<string, string | number | undefined>;
+}
+
+export interface DevToolbarOptions {
+  /**
+   * Also check external links of pages served in dev, using the external
+   * request settings (default: false)
+   */
+  checkExternal?: boolean;
+}
+
+export interface IncrementalOptions {
+  /**
+   * Manifest file location, relative to the current working directory
+   * (default: 'node_modules/.cache/astro-link-validator/manifest.json')
+   */
+  path?: string;
+}
+
+export interface ExternalCacheOptions {
+  /**
+   * Cache file location, relative to the current working directory
+   * (default: 'node_modules/.cache/astro-link-validator/external-links.json')
+   */
+  path?: string;
+
+  /**
+   * How long a successful check is reused, in milliseconds (default: one day)
+   */
+  successTtl?: number;
+
+  /**
+   * How long a failed check is reused, in milliseconds (default: one hour)
+   */
+  failureTtl?: number;
+
+  /**
+   * 'expired' re-checks only URLs whose entry has outlived its TTL (default);
+   * 'all' re-checks every URL and rewrites the cache
+   */
+  refresh?: 'expired' | 'all';
+}
+
+export interface ExternalDomainOptions {
+  /**
+   * Extra request headers, e.g. `{ Authorization: 'Bearer ...' }` for private hosts
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Cookies to send, by name
+   */
+  cookies?: Record<string, string>;
+
+  /**
+   * User-Agent header to send instead of the default
+   */
+  userAgent?: string;
+
+  /**
+   * Timeout in milliseconds, overriding `externalTimeout`
+   */
+  timeout?: number;
+
+  /**
+   * HTTP status codes to accept as valid on this host, in addition to the global ones
+   */
+  acceptedStatusCodes?: number[];
+}
+
+/**
+ * Machine-readable report formats
+ */
+export type ReportFormat = 'json' | 'junit' | 'sarif' | 'markdown';
+
+export interface ReportOptions {
+  format: ReportFormat;
+  outputFile: string;
+}
+
+/**
+ * The parts of the Astro project config used during validation. The integration
+ * captures these in `astro:config:done`; programmatic callers can pass them to
+ * checkLinks directly.
+ */
+export interface AstroProjectConfig {
+  /**
+   * Base path the site is deployed under (e.g. '/docs')
+   */
+  base?: string;
+
+  /**
+   * Full URL the site is deployed at (e.g. 'https://example.com'), Astro's `site`
+   */
+  site?: string;
+
+  /**
+   * Trailing slash policy for page links. 'always' and 'never' are enforced,
+   * 'ignore' (the default) accepts both.
+   */
+  trailingSlash?: 'always' | 'never' | 'ignore';
+
+  /**
+   * Redirects declared in astro.config, keyed by route
+   */
+  redirects?: Record<string, string | { status: number; destination: string }>;
+
+  /**
+   * Project file each built page was generated from, keyed by the page's path
+   * relative to the build directory (e.g. 'blog/post/index.html' →
+   * 'src/content/blog/post.md'). The integration derives this from Astro's route data.
+   */
+  pageOrigins?: Record<string, string>;
+
+  /**
+   * Routes rendered on demand, which have no file in the build. Links matching
+   * one of them are valid. The integration collects these from Astro's route data.
+   */
+  serverRoutes?: ServerRoute[];
+
+  /**
+   * Astro's `i18n` config: the locales, and whether the default locale's pages
+   * are under a prefix of their own
+   */
+  i18n?: I18nConfig;
+
+  /**
+   * Source directory, for checking Markdown sources (default: 'src' under the project root)
+   */
+  srcDir?: string;
+
+  /**
+   * Directory of files copied to the build as they are, for checking Markdown
+   * sources (default: 'public' under the project root)
+   */
+  publicDir?: string;
+}
+
+/**
+ * The parts of Astro's `i18n` config the i18n checks use
+ */
+export interface I18nConfig {
+  /**
+   * Locale whose pages are served without a prefix, unless `prefixDefaultLocale` is set
+   */
+  defaultLocale: string;
+  /**
+   * Locales as URL path segments (e.g. 'fr'), or paths with the language codes they stand for
+   */
+  locales: (string | { path: string; codes: string[] })[];
+  routing?: 'manual' | { prefixDefaultLocale?: boolean };
+}
+
+/**
+ * A route that is rendered on demand rather than prerendered
+ */
+export interface ServerRoute {
+  /**
+   * Route pattern, e.g. '/products/[id]'
+   */
+  pattern: string;
+  /**
+   * Regex matching the paths the route serves, relative to the site base
+   */
+  patternRegex: RegExp;
+  /**
+   * Names of the route's params, in the order the regex captures them
+   */
+  params: string[];
 }
 
 export interface Link {
@@ -46,17 +473,222 @@ export interface Link {
   line?: number;
   column?: number;
   sourceFile: string;
+  /**
+   * Project file the source page was built from, when known (e.g. 'src/content/blog/post.md')
+   */
+  originFile?: string;
   type: 'internal' | 'external' | 'asset' | 'anchor';
+  /**
+   * Element and attribute the link was found in (e.g. 'a[href]', 'link[rel=canonical]',
+   * 'meta[og:image]', 'video[poster]')
+   */
+  source?: string;
 }
 
 export interface BrokenLink extends Link {
   error: string;
-  reason: 'not-found' | 'network-error' | 'timeout' | 'invalid';
+  reason: 'not-found' | 'network-error' | 'timeout' | 'invalid' | 'missing-anchor' | 'trailing-slash' | 'absolute-self-link' | 'redirected' | 'case-mismatch';
+  /**
+   * For `missing-anchor`, the ids in the target page closest to the missing fragment
+   */
+  suggestions?: string[];
+  /**
+   * For `redirected`, each redirect rule followed from the href to its final target
+   */
+  redirectChain?: RedirectHop[];
+  /**
+   * Whether the finding fails the build, after applying `rules`
+   */
+  severity?: Exclude<Severity, 'off'>;
+}
+
+/**
+ * One redirect rule followed while resolving an internal link
+ */
+export interface RedirectHop {
+  from: string;
+  to: string;
+  /**
+   * Status of the rule: 301, 302, ... or 200 for a rewrite
+   */
+  status: number;
+}
+
+/**
+ * A broken link on a page served by the dev server
+ */
+export interface DevBrokenLink extends BrokenLink {
+  /**
+   * How many earlier links on the page share this link's element and href, so
+   * the toolbar can find the element it came from
+   */
+  occurrence: number;
+}
+
+/**
+ * The links checked on one page served by the dev server, as sent to the Dev Toolbar app
+ */
+export interface DevPageReport {
+  /**
+   * URL path of the page, including the site base
+   */
+  pathname: string;
+  totalLinks: number;
+  brokenLinks: DevBrokenLink[];
+}
+
+/**
+ * A known broken link recorded in a baseline file
+ */
+export interface BaselineEntry {
+  /**
+   * Page the link was found on, relative to the build directory
+   */
+  sourceFile: string;
+  href: string;
+  reason: BrokenLink['reason'];
 }
 
 export interface LinkCheckResult {
   totalLinks: number;
+  /**
+   * Findings with `error` severity, which fail the build
+   */
   brokenLinks: BrokenLink[];
+  /**
+   * Findings with `warn` severity, which are reported but don't fail the build
+   */
+  warnings?: BrokenLink[];
   checkedFiles: string[];
   skippedFiles: string[];
+  /**
+   * Broken links left out of `brokenLinks` because the baseline file records them
+   */
+  baselinedLinks?: BrokenLink[];
+  /**
+   * Baseline entries that no longer match a broken link and can be pruned
+   */
+  fixedBaselineEntries?: BaselineEntry[];
+  /**
+   * Page-to-page link graph, when `orphanPages`, `linkGraph` or `checkSitemap` is set
+   */
+  linkGraph?: LinkGraph;
+  /**
+   * Checked pages that no other page links to
+   */
+  orphanPages?: OrphanPage[];
+  /**
+   * Disagreements between the sitemap and the build, when `checkSitemap` is set
+   */
+  sitemapIssues?: SitemapIssue[];
+  /**
+   * Hreflang and cross-locale link problems, when `checkI18n` is set
+   */
+  i18nIssues?: I18nIssue[];
+}
+
+/**
+ * A checked page that no other page links to
+ */
+export interface OrphanPage {
+  /**
+   * HTML file relative to the build directory
+   */
+  page: string;
+  reason: 'orphan-page';
+  /**
+   * Whether the finding fails the build, after applying `rules` (default: warn)
+   */
+  severity?: Exclude<Severity, 'off'>;
+}
+
+/**
+ * A problem with the locale alternates or cross-locale links of a page
+ */
+export interface I18nIssue {
+  /**
+   * Page the problem is on, relative to the build directory
+   */
+  page: string;
+  /**
+   * The alternate or link the problem is about, where there is one
+   */
+  href?: string;
+  line?: number;
+  column?: number;
+  /**
+   * 'missing-return-link': an alternate page doesn't list this page back;
+   * 'missing-x-default': the page's alternates have no `x-default`;
+   * 'missing-self-reference': the page's alternates don't include the page itself;
+   * 'cross-locale-link': the page links into another locale where its own locale has an equivalent
+   */
+  reason: 'missing-return-link' | 'missing-x-default' | 'missing-self-reference' | 'cross-locale-link';
+  error: string;
+  /**
+   * For `cross-locale-link`, the equivalent page in the page's own locale
+   */
+  suggestion?: string;
+  /**
+   * Whether the finding fails the build, after applying `rules` (default: warn)
+   */
+  severity?: Exclude<Severity, 'off'>;
+}
+
+/**
+ * A disagreement between the sitemap and the built site
+ */
+export interface SitemapIssue {
+  /**
+   * The URL listed in the sitemap, or for `missing-from-sitemap` the URL path of the page
+   */
+  url: string;
+  /**
+   * Sitemap file listing the URL, relative to the build directory
+   */
+  sitemapFile?: string;
+  /**
+   * For `missing-from-sitemap`, the built page relative to the build directory
+   */
+  page?: string;
+  /**
+   * 'not-found': the URL doesn't resolve to a built file or redirect;
+   * 'wrong-host': the URL isn't on the configured `site`;
+   * 'missing-from-sitemap': a page other pages link to isn't listed
+   */
+  reason: 'not-found' | 'wrong-host' | 'missing-from-sitemap';
+  error: string;
+  /**
+   * Whether the finding fails the build, after applying `rules` (default: warn)
+   */
+  severity?: Exclude<Severity, 'off'>;
+}
+
+/**
+ * A built page in the link graph
+ */
+export interface LinkGraphPage {
+  /**
+   * HTML file relative to the build directory (e.g. 'blog/post/index.html')
+   */
+  page: string;
+  /**
+   * URL path of the page relative to the site base (e.g. '/blog/post/')
+   */
+  url: string;
+  /**
+   * Number of other pages linking to this page
+   */
+  inDegree: number;
+  /**
+   * Number of other pages this page links to
+   */
+  outDegree: number;
+  /**
+   * Pages this page links to, relative to the build directory
+   */
+  linksTo: string[];
+}
+
+export interface LinkGraph {
+  pages: LinkGraphPage[];
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const anchorBuildDir = join(__dirname, 'fixtures/anchor-build');
+
+const checkAnchors = () => checkLinks(anchorBuildDir, {
+  checkExternal: false,
+  redirectsFile: '_redirects',
+  verbose: false
+});
+
+describe('Anchor Links', () => {
+  it('should accept same-page fragments that match an id or named anchor', async () => {
+    const result = await checkAnchors();
+    const hrefs = result.brokenLinks.map(link => link.href);
+
+    assert(!hrefs.includes('#intro'), '#intro matches an element id');
+    assert(!hrefs.includes('#legacy-anchor'), '#legacy-anchor matches <a name>');
+    assert(!hrefs.includes('#top'), '#top always scrolls to the top of the page');
+  });
+
+  it('should report a same-page fragment with no matching id', async () => {
+    const result = await checkAnchors();
+    const typo = result.brokenLinks.find(link => link.href === '#intr');
+
+    assert(typo, 'Should report #intr as broken');
+    assert.strictEqual(typo.reason, 'missing-anchor');
+    assert.strictEqual(typo.type, 'anchor');
+    assert.deepStrictEqual(typo.suggestions, ['intro'], 'Should suggest the closest existing id');
+  });
+
+  it('should check fragments on links to other pages', async () => {
+    const result = await checkAnchors();
+    const hrefs = result.brokenLinks.map(link => link.href);
+
+    assert(!hrefs.includes('/docs/page#install'), 'Existing cross-page anchor should be valid');
+    assert(!hrefs.includes('/docs/page/#configuration'), 'Anchor should resolve through index.html');
+    assert(!hrefs.includes('/docs/page#caf%C3%A9'), 'Percent-encoded fragments should be decoded');
+
+    const removed = result.brokenLinks.find(link => link.href === '/docs/page#renamed-heading');
+    assert(removed, 'Should report a fragment that no longer exists');
+    assert.strictEqual(removed.reason, 'missing-anchor');
+    assert(removed.error.includes('docs/page/index.html'), `Error should name the target page, got: ${removed.error}`);
+  });
+
+  it('should suggest the closest ids for a mistyped fragment', async () => {
+    const result = await checkAnchors();
+    const typo = result.brokenLinks.find(link => link.href === '/docs/page#instal');
+
+    assert(typo, 'Should report /docs/page#instal as broken');
+    assert.strictEqual(typo.suggestions[0], 'install', 'Closest match should come first');
+    assert(/did you mean #install/.test(typo.error), `Error should include the suggestion, got: ${typo.error}`);
+  });
+
+  it('should check fragments against the page a redirect lands on', async () => {
+    const result = await checkAnchors();
+    const hrefs = result.brokenLinks.map(link => link.href);
+
+    assert(!hrefs.includes('/old-docs#install'), 'Fragment should be valid on the redirect target');
+
+    const missing = result.brokenLinks.find(link => link.href === '/old-docs#missing');
+    assert(missing, 'Should report a missing fragment on the redirect target');
+    assert.strictEqual(missing.reason, 'missing-anchor');
+  });
+
+  it('should not inspect fragments on non-HTML files', async () => {
+    const result = await checkAnchors();
+    const hrefs = result.brokenLinks.map(link => link.href);
+
+    assert(!hrefs.includes('/docs/manual.pdf#page=2'), 'PDF fragments are not element ids');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { parseAstroRedirects } from '../dist/redirects.js';
+import linkValidator from '../dist/index.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const configBuildDir = join(__dirname, 'fixtures/astro-config-build');
+
+const projectConfig = {
+  base: '/docs',
+  redirects: {
+    '/old': '/new',
+    '/blog/[...slug]': '/posts/[...slug]',
+    '/retired': { status: 302, destination: '/gone' }
+  }
+};
+
+const brokenHrefs = (result) => result.brokenLinks.map(link => link.href);
+
+describe('Astro Project Config', () => {
+  it('should convert astro.config redirects into redirect rules under the base', () => {
+    const rules = parseAstroRedirects(projectConfig.redirects, '/docs/');
+
+    assert.deepStrictEqual(rules, [
+      { from: '/docs/old', to: '/docs/new', status: 301, force: true },
+      { from: '/docs/blog/*', to: '/docs/posts/:splat', status: 301, force: true },
+      { from: '/docs/retired', to: '/docs/gone', status: 302, force: true }
+    ]);
+  });
+
+  it('should resolve links under the base and follow astro.config redirects', async () => {
+    const result = await checkLinks(configBuildDir, { checkExternal: false }, projectConfig);
+    const hrefs = brokenHrefs(result);
+
+    assert(!hrefs.includes('/docs/'), 'The base itself is the site root');
+    assert(!hrefs.includes('/docs/about/'), 'Pages under the base should resolve');
+    assert(!hrefs.includes('/docs/old/'), 'Config redirects should be followed');
+    assert(!hrefs.includes('/docs/blog/hello/'), 'Dynamic config redirects should carry their params');
+    assert(hrefs.includes('/docs/retired/'), 'A config redirect to a missing page is still broken');
+  });
+
+  it('should report root-relative links that are missing the base', async () => {
+    const result = await checkLinks(configBuildDir, { checkExternal: false }, projectConfig);
+    const outside = result.brokenLinks.find(link => link.href === '/about/');
+
+    assert(outside, 'Should report /about/ as broken');
+    assert.strictEqual(outside.reason, 'not-found');
+    assert(outside.error.includes('/docs/'), `Error should name the base, got: ${outside.error}`);
+  });
+
+  it('should enforce trailingSlash: always', async () => {
+    const result = await checkLinks(configBuildDir, { checkExternal: false }, { ...projectConfig, trailingSlash: 'always' });
+    const missing = result.brokenLinks.find(link => link.href === '/docs/about');
+
+    assert(missing, 'Should report a page link without a trailing slash');
+    assert.strictEqual(missing.reason, 'trailing-slash');
+    assert(!brokenHrefs(result).includes('/docs/about/'), 'Links with the slash follow the policy');
+    assert(!brokenHrefs(result).includes('./'), 'Relative directory links are exempt');
+  });
+
+  it('should enforce trailingSlash: never', async () => {
+    const result = await checkLinks(configBuildDir, { checkExternal: false }, { ...projectConfig, trailingSlash: 'never' });
+    const hrefs = result.brokenLinks.filter(link => link.reason === 'trailing-slash').map(link => link.href);
+
+    assert(hrefs.includes('/docs/about/'), 'Should report a page link with a trailing slash');
+    assert(!hrefs.includes('/docs/about'), 'Links without the slash follow the policy');
+    assert(!hrefs.includes('/docs/'), 'The site root is exempt');
+  });
+
+  it('should accept both forms when trailingSlash is ignore', async () => {
+    const result = await checkLinks(configBuildDir, { checkExternal: false }, { ...projectConfig, trailingSlash: 'ignore' });
+
+    assert(!result.brokenLinks.some(link => link.reason === 'trailing-slash'), 'Should not report trailing slashes');
+  });
+
+  it('should pass the config captured in astro:config:done to the build check', async () => {
+    const integration = linkValidator({ failOnBrokenLinks: false });
+    const logger = { info() {}, warn() {}, error() {} };
+    const messages = [];
+    logger.error = (message) => messages.push(message);
+
+    integration.hooks['astro:config:done']({
+      config: { ...projectConfig, trailingSlash: 'ignore', root: pathToFileURL(join(configBuildDir, '/')) },
+      logger
+    });
+
+    const originalLog = console.log;
+    const output = [];
+    console.log = (...args) => output.push(args.join(' '));
+
+    try {
+      await integration.hooks['astro:build:done']({
+        dir: pathToFileURL(join(configBuildDir, '/')),
+        logger
+      });
+    } finally {
+      console.log = originalLog;
+    }
+
+    assert(messages.some(message => message.includes('2 broken links')), `Expected 2 broken links, got: ${messages.join(' | ')}`);
+    assert(!output.some(line => line.includes('/docs/old/')), 'The config redirect should not be reported');
+  });
+});
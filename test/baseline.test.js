@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import linkValidator from '../dist/index.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const mockBuildDir = join(__dirname, 'fixtures/mock-build');
+const baselineDir = join(__dirname, 'fixtures/baseline-output');
+
+const writeBaselineFile = async (name, entries) => {
+  await fs.mkdir(baselineDir, { recursive: true });
+  const file = join(baselineDir, name);
+  await fs.writeFile(file, JSON.stringify({ version: 1, entries }));
+  return file;
+};
+
+describe('Baseline', () => {
+  it('should record the current broken links when updating the baseline', async () => {
+    const baselineFile = join(baselineDir, 'update.json');
+
+    try {
+      const result = await checkLinks(mockBuildDir, { baselineFile, updateBaseline: true });
+
+      assert.strictEqual(result.brokenLinks.length, 0, 'Nothing is new once recorded');
+      assert.strictEqual(result.baselinedLinks.length, 2, 'Both broken links are recorded');
+
+      const baseline = JSON.parse(await fs.readFile(baselineFile, 'utf-8'));
+      assert.deepStrictEqual(baseline.entries, [
+        { sourceFile: 'index.html', href: '/images/missing.jpg', reason: 'not-found' },
+        { sourceFile: 'index.html', href: '/missing-page', reason: 'not-found' }
+      ]);
+    } finally {
+      await fs.rm(baselineDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should only report broken links missing from the baseline', async () => {
+    try {
+      const baselineFile = await writeBaselineFile('partial.json', [
+        { sourceFile: 'index.html', href: '/missing-page', reason: 'not-found' }
+      ]);
+
+      const result = await checkLinks(mockBuildDir, { baselineFile });
+
+      assert.deepStrictEqual(result.brokenLinks.map(link => link.href), ['/images/missing.jpg']);
+      assert.deepStrictEqual(result.baselinedLinks.map(link => link.href), ['/missing-page']);
+      assert.deepStrictEqual(result.fixedBaselineEntries, []);
+    } finally {
+      await fs.rm(baselineDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should match entries by source page, href and reason', async () => {
+    try {
+      const baselineFile = await writeBaselineFile('mismatch.json', [
+        { sourceFile: 'about/index.html', href: '/missing-page', reason: 'not-found' },
+        { sourceFile: 'index.html', href: '/images/missing.jpg', reason: 'invalid' }
+      ]);
+
+      const result = await checkLinks(mockBuildDir, { baselineFile });
+
+      assert.strictEqual(result.brokenLinks.length, 2, 'Entries on another page or with another reason do not match');
+    } finally {
+      await fs.rm(baselineDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report baseline entries that are now fixed', async () => {
+    try {
+      const baselineFile = await writeBaselineFile('stale.json', [
+        { sourceFile: 'index.html', href: '/missing-page', reason: 'not-found' },
+        { sourceFile: 'index.html', href: '/images/missing.jpg', reason: 'not-found' },
+        { sourceFile: 'about/index.html', href: '/fixed-last-week', reason: 'not-found' }
+      ]);
+
+      const result = await checkLinks(mockBuildDir, { baselineFile });
+
+      assert.strictEqual(result.brokenLinks.length, 0);
+      assert.deepStrictEqual(result.fixedBaselineEntries, [
+        { sourceFile: 'about/index.html', href: '/fixed-last-week', reason: 'not-found' }
+      ]);
+    } finally {
+      await fs.rm(baselineDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should treat every broken link as new when the baseline file does not exist', async () => {
+    const originalWarn = console.warn;
+    console.warn = () => {};
+
+    try {
+      const result = await checkLinks(mockBuildDir, { baselineFile: join(baselineDir, 'missing.json') });
+      assert.strictEqual(result.brokenLinks.length, 2);
+    } finally {
+      console.warn = originalWarn;
+    }
+  });
+
+  it('should not fail the build when every broken link is in the baseline', async () => {
+    try {
+      const baselineFile = await writeBaselineFile('complete.json', [
+        { sourceFile: 'index.html', href: '/missing-page', reason: 'not-found' },
+        { sourceFile: 'index.html', href: '/images/missing.jpg', reason: 'not-found' },
+        { sourceFile: 'index.html', href: '/since-fixed', reason: 'not-found' }
+      ]);
+      const messages = [];
+      const logger = { info: (message) => messages.push(message), warn() {}, error() {} };
+      const integration = linkValidator({ baselineFile });
+
+      await integration.hooks['astro:build:done']({
+        dir: pathToFileURL(join(mockBuildDir, '/')),
+        logger
+      });
+
+      assert(messages.some(message => message.includes('Ignored 2 known broken links')), 'Should mention the suppressed links');
+      assert(messages.some(message => message.includes('index.html: /since-fixed')), 'Should list fixed entries for pruning');
+    } finally {
+      await fs.rm(baselineDir, { recursive: true, force: true });
+    }
+  });
+});
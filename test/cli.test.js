@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { execFile } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const cliPath = join(__dirname, '../dist/cli.js');
+const mockBuildDir = join(__dirname, 'fixtures/mock-build');
+const redirectBuildDir = join(__dirname, 'fixtures/redirect-build');
+
+/**
+ * Run the CLI and resolve with its exit code and output, whatever the exit code
+ */
+function runCli(args) {
+  return new Promise((resolve) => {
+    execFile(process.execPath, [cliPath, ...args], (error, stdout, stderr) => {
+      resolve({ code: error ? error.code : 0, stdout, stderr });
+    });
+  });
+}
+
+describe('CLI', () => {
+  it('should exit non-zero and list broken links', async () => {
+    const { code, stdout } = await runCli(['check', mockBuildDir]);
+
+    assert.strictEqual(code, 1, 'Should exit with 1 when broken links are found');
+    assert(stdout.includes('/missing-page'), 'Should print the broken links');
+    assert(stdout.includes('Found 2 broken links'), 'Should print the count');
+  });
+
+  it('should exit with 0 when every link is valid', async () => {
+    const { code, stdout } = await runCli(['check', mockBuildDir, '--exclude', '/missing-page', '--exclude', '/images/missing.jpg']);
+
+    assert.strictEqual(code, 0, `Should exit with 0, output: ${stdout}`);
+    assert(stdout.includes('No broken links found'), 'Should report success');
+  });
+
+  it('should exit with 0 on broken links with --no-fail', async () => {
+    const { code } = await runCli(['check', mockBuildDir, '--no-fail']);
+
+    assert.strictEqual(code, 0);
+  });
+
+  it('should print a machine-readable report with --format', async () => {
+    const { code, stdout } = await runCli(['check', mockBuildDir, '--format', 'json']);
+    const report = JSON.parse(stdout);
+
+    assert.strictEqual(code, 1);
+    assert.strictEqual(report.summary.brokenLinks, 2);
+    assert(report.brokenLinks.some(link => link.href === '/images/missing.jpg'), 'Should include the broken links');
+  });
+
+  it('should keep verbose progress out of a report written to stdout', async () => {
+    const { stdout, stderr } = await runCli(['check', mockBuildDir, '--format', 'json', '--verbose']);
+
+    assert.strictEqual(JSON.parse(stdout).summary.brokenLinks, 2);
+    assert(stderr.includes('Checked '), 'Progress should go to stderr');
+  });
+
+  it('should write the report to a file with --output', async () => {
+    const outputFile = join(__dirname, 'fixtures/cli-output/links.xml');
+
+    try {
+      const { code, stdout } = await runCli(['check', mockBuildDir, '--format', 'junit', '--output', outputFile]);
+
+      assert.strictEqual(code, 1);
+      assert.strictEqual(stdout, '', 'Nothing should be printed when writing to a file');
+      assert((await fs.readFile(outputFile, 'utf-8')).startsWith('<?xml'), 'Should write the JUnit report');
+    } finally {
+      await fs.rm(join(__dirname, 'fixtures/cli-output'), { recursive: true, force: true });
+    }
+  });
+
+  it('should map --redirects onto the redirects file option', async () => {
+    const { stdout } = await runCli(['check', redirectBuildDir, '--redirects', '_redirects', '--format', 'json']);
+    const hrefs = JSON.parse(stdout).brokenLinks.map(link => link.href);
+
+    assert(!hrefs.includes('/old-page'), '/old-page should be followed through _redirects');
+    assert(hrefs.includes('/gone'), '/gone should still be broken');
+  });
+
+  it('should read options from a config file', async () => {
+    const configFile = join(__dirname, 'fixtures/cli-config/link-validator.config.json');
+    const { stdout } = await runCli(['check', mockBuildDir, '--config', configFile, '--format', 'json']);
+    const hrefs = JSON.parse(stdout).brokenLinks.map(link => link.href);
+
+    assert(!hrefs.includes('/missing-page'), 'Should apply exclude from the config file');
+    assert(hrefs.includes('/images/missing.jpg'), 'Should still check other links');
+  });
+
+  it('should exit with 2 on bad usage', async () => {
+    assert.strictEqual((await runCli([])).code, 2, 'Missing command');
+    assert.strictEqual((await runCli(['check'])).code, 2, 'Missing directory');
+    assert.strictEqual((await runCli(['check', mockBuildDir, '--format', 'yaml'])).code, 2, 'Unknown format');
+    assert.strictEqual((await runCli(['check', mockBuildDir, '--unknown'])).code, 2, 'Unknown flag');
+    assert.strictEqual((await runCli(['check', mockBuildDir, '--workers', 'abc'])).code, 2, 'Non-numeric worker count');
+    assert.strictEqual((await runCli(['check', mockBuildDir, '--timeout=-5'])).code, 2, 'Negative timeout');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer } from 'node:http';
+import { execFile } from 'node:child_process';
+import { checkLinks } from '../dist/link-checker.js';
+import { formatReport } from '../dist/reporters.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/crawl-build');
+const cliPath = join(__dirname, '../dist/cli.js');
+
+const page = (...hrefs) => `<html><body><h2 id="install">Install</h2>${hrefs.map(href => `<a href="${href}">Link</a>`).join('\n')}</body></html>`;
+
+// The site as served: some routes exist only on the server, with no HTML file in the build
+const PAGES = {
+  '/': page('/docs/', '/ssr/hello', '/old', '/loop', '/missing', '/error', '/docs/#install', '/docs/#instal', '/admin/panel', 'https://example.invalid/', 'https://example.com/docs/'),
+  '/docs/': page('/', '/ssr/hello', '/styles.css'),
+  '/ssr/hello': page('/deep/'),
+  '/deep/': page('/deep/gone', '/docs/#100%')
+};
+
+describe('Crawl Mode', () => {
+  let server;
+  let origin;
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+
+      // A short delay so requests overlap
+      setTimeout(() => {
+        inFlight--;
+        const path = req.url;
+
+        if (PAGES[path]) {
+          res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+          res.end(PAGES[path]);
+        } else if (path === '/styles.css') {
+          res.writeHead(200, { 'content-type': 'text/css' });
+          res.end('body {}');
+        } else if (path === '/old') {
+          res.writeHead(301, { location: '/docs/' });
+          res.end();
+        } else if (path === '/loop') {
+          res.writeHead(302, { location: '/loop' });
+          res.end();
+        } else if (path === '/error') {
+          res.writeHead(500);
+          res.end();
+        } else {
+          res.writeHead(404, { 'content-type': 'text/html' });
+          res.end('<html><body>Not found</body></html>');
+        }
+      }, 5);
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${server.address().port}`;
+
+    // Only some pages are prerendered
+    await fs.mkdir(join(buildDir, 'docs'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'index.html'), PAGES['/']);
+    await fs.writeFile(join(buildDir, 'docs/index.html'), PAGES['/docs/']);
+    await fs.writeFile(join(buildDir, '404.html'), '<html><body>Not found</body></html>');
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('should crawl from the prerendered pages and check links with requests', async () => {
+    const result = await checkLinks(buildDir, {
+      crawl: { url: origin },
+      exclude: ['/admin/*'],
+      siteOrigins: ['https://example.com']
+    });
+
+    assert.deepStrictEqual(result.checkedFiles, [`${origin}/`, `${origin}/docs/`, `${origin}/ssr/hello`, `${origin}/deep/`]);
+    assert.deepStrictEqual(result.skippedFiles, []);
+    assert.strictEqual(result.totalLinks, 11 + 3 + 1 + 2);
+    assert.deepStrictEqual(result.brokenLinks.map(link => [link.sourceFile, link.href, link.reason, link.error]), [
+      [`${origin}/`, '/loop', 'invalid', 'Redirect loop: more than 10 redirects followed from /loop'],
+      [`${origin}/`, '/missing', 'not-found', 'HTTP 404: Not Found'],
+      [`${origin}/`, '/error', 'network-error', 'HTTP 500: Internal Server Error'],
+      [`${origin}/`, '/docs/#instal', 'missing-anchor', 'Anchor #instal not found in /docs/ (did you mean #install?)'],
+      [`${origin}/deep/`, '/deep/gone', 'not-found', 'HTTP 404: Not Found'],
+      // A malformed fragment is looked up as written rather than ending the crawl
+      [`${origin}/deep/`, '/docs/#100%', 'missing-anchor', 'Anchor #100% not found in /docs/']
+    ]);
+
+    // Reports show the page URL rather than a path in the build
+    const report = JSON.parse(formatReport(result, 'json', buildDir));
+    assert.strictEqual(report.brokenLinks[0].sourceFile, `${origin}/`);
+  });
+
+  it('should report links that go through redirects when asked to', async () => {
+    const result = await checkLinks(buildDir, { crawl: { url: origin, seeds: ['/'] }, redirectedLinks: true, exclude: ['/admin/*'] });
+
+    const redirected = result.warnings.filter(link => link.reason === 'redirected');
+    assert.deepStrictEqual(redirected.map(link => [link.href, link.error]), [
+      ['/old', 'Redirects to /docs/ (1 hop: /old → 301 → /docs/)']
+    ]);
+    assert.deepStrictEqual(redirected[0].redirectChain, [{ from: '/old', to: '/docs/', status: 301 }]);
+  });
+
+  it('should only crawl pages under the server URL', async () => {
+    const result = await checkLinks(buildDir, { crawl: { url: `${origin}/docs/`, seeds: [''] } });
+
+    assert.deepStrictEqual(result.checkedFiles, [`${origin}/docs/`]);
+    assert.strictEqual(result.brokenLinks.length, 0, 'Links out of the crawled section are still checked');
+  });
+
+  it('should list seeds that are not pages as skipped', async () => {
+    const result = await checkLinks(buildDir, { crawl: { url: origin, seeds: ['/missing', '/styles.css', '/docs/'] } });
+
+    assert.deepStrictEqual(result.skippedFiles, [`${origin}/missing`, `${origin}/styles.css`]);
+    assert.strictEqual(result.checkedFiles[0], `${origin}/docs/`);
+  });
+
+  it('should stop at maxPages and respect the request concurrency', async () => {
+    maxInFlight = 0;
+    const warnings = [];
+    const originalWarn = console.warn;
+    console.warn = (message) => warnings.push(message);
+
+    let result;
+    try {
+      result = await checkLinks(buildDir, { crawl: { url: origin, seeds: ['/'], maxPages: 2, concurrency: 2 } });
+    } finally {
+      console.warn = originalWarn;
+    }
+
+    assert.strictEqual(result.checkedFiles.length, 2);
+    assert(warnings.some(message => message.includes('Stopped crawling') && message.includes('after 2 pages')));
+    assert(maxInFlight <= 2, `At most 2 requests at once, saw ${maxInFlight}`);
+  });
+
+  it('should crawl a server from the command line', async () => {
+    const { code, stdout } = await new Promise((resolve) => {
+      execFile(process.execPath, [cliPath, 'check', '--crawl', origin, '--seed', '/deep/'], (error, stdout) => {
+        resolve({ code: error ? error.code : 0, stdout });
+      });
+    });
+
+    assert.strictEqual(code, 1);
+    assert(stdout.includes('/deep/gone'));
+    assert(stdout.includes(`${origin}/deep/`));
+  });
+});
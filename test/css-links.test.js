@@ -0,0 +1,129 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks, extractLinksFromHtml } from '../dist/link-checker.js';
+import { extractLinksFromCss } from '../dist/css-links.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/css-build');
+
+describe('CSS Link Extraction', () => {
+  it('should extract url(), @import, image-set() and @font-face references', () => {
+    const css = [
+      '@import "reset.css";',
+      '@import url(\'theme.css\');',
+      '@font-face {',
+      '  font-family: Inter;',
+      '  src: url(/fonts/inter.woff2) format("woff2"), url("/fonts/inter.woff") format("woff");',
+      '}',
+      '.hero { background-image: url( "../images/hero.jpg" ); }',
+      '.logo { background: image-set("/logo.png" 1x, url(/logo@2x.png) 2x); }'
+    ].join('\n');
+
+    const links = extractLinksFromCss(css, '/dist/_astro/app.css');
+
+    assert.deepStrictEqual(links.map(link => [link.href, link.source]), [
+      ['reset.css', '@import'],
+      ['theme.css', '@import'],
+      ['/fonts/inter.woff2', '@font-face'],
+      ['/fonts/inter.woff', '@font-face'],
+      ['../images/hero.jpg', 'url()'],
+      ['/logo.png', 'image-set()'],
+      ['/logo@2x.png', 'image-set()']
+    ]);
+    assert(links.every(link => link.type === 'asset' && link.sourceFile === '/dist/_astro/app.css'));
+  });
+
+  it('should skip comments, data URLs and fragment-only references', () => {
+    const css = [
+      '/* .old { background: url(/removed.png); } */',
+      '.icon { background: url(data:image/png;base64,AAAA); }',
+      '.shape { fill: url(#gradient); }',
+      '.cdn { background: url(https://cdn.example.com/bg.png); }'
+    ].join('\n');
+
+    const links = extractLinksFromCss(css, '/dist/app.css');
+
+    assert.deepStrictEqual(links.map(link => [link.href, link.type]), [['https://cdn.example.com/bg.png', 'external']]);
+  });
+
+  it('should record the line and column of each reference', () => {
+    const links = extractLinksFromCss('body {\n  background: url(/bg.png);\n}', '/dist/app.css');
+
+    assert.strictEqual(links[0].line, 2);
+    assert.strictEqual(links[0].column, 15);
+  });
+
+  it('should extract references from inline styles and <style> blocks', () => {
+    const html = [
+      '<html><head>',
+      '<style>',
+      '  .hero { background: url(/images/hero.jpg); }',
+      '</style>',
+      '</head><body>',
+      '<div style="background-image: url(\'/images/banner.png\')"></div>',
+      '</body></html>'
+    ].join('\n');
+
+    const links = extractLinksFromHtml(html, '/dist/index.html');
+    const hero = links.find(link => link.href === '/images/hero.jpg');
+    const banner = links.find(link => link.href === '/images/banner.png');
+
+    assert.strictEqual(hero.source, 'style url()');
+    assert.strictEqual(hero.line, 3);
+    assert.strictEqual(hero.column, 23);
+    assert.strictEqual(banner.source, 'div[style] url()');
+    assert.strictEqual(banner.line, 6);
+  });
+});
+
+describe('CSS Link Checking', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, '_astro'), { recursive: true });
+    await fs.mkdir(join(buildDir, 'fonts'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'fonts/inter.woff2'), '');
+    await fs.writeFile(join(buildDir, 'new-bg.png'), '');
+    await fs.writeFile(join(buildDir, '_astro/reset.css'), '');
+    await fs.writeFile(join(buildDir, '_redirects'), '/old-bg.png /new-bg.png 301\n');
+    await fs.writeFile(join(buildDir, '_astro/app.css'), [
+      '@import "reset.css";',
+      '@import "missing.css";',
+      '@font-face { font-family: Inter; src: url(../fonts/inter.woff2); }',
+      '.a { background: url(/old-bg.png); }',
+      '.b { background: url(/missing-bg.png); }',
+      '.c { background: url(../../../../etc/passwd); }'
+    ].join('\n'));
+    await fs.writeFile(join(buildDir, 'index.html'), `
+      <html><head><link rel="stylesheet" href="/_astro/app.css"></head>
+      <body><div style="background: url(/missing-inline.png)"></div></body></html>
+    `);
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('should check built stylesheets by default, relative to the stylesheet', async () => {
+    const result = await checkLinks(buildDir, { redirectsFile: '_redirects' });
+
+    const broken = result.brokenLinks.map(link => [link.href, link.reason]);
+    assert.deepStrictEqual(broken.sort(), [
+      ['../../../../etc/passwd', 'invalid'],
+      ['/missing-bg.png', 'not-found'],
+      ['/missing-inline.png', 'not-found'],
+      ['missing.css', 'not-found']
+    ]);
+    assert(result.checkedFiles.includes('_astro/app.css'), 'The stylesheet should be listed as checked');
+  });
+
+  it('should only open stylesheets matched by include', async () => {
+    const result = await checkLinks(buildDir, { include: ['**/*.html'] });
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => link.href), ['/missing-inline.png'], 'Inline styles are still checked');
+    assert.deepStrictEqual(result.checkedFiles, ['index.html']);
+  });
+});
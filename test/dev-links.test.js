@@ -0,0 +1,212 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer } from 'node:http';
+import { createDevLinkChecker, createDevLinkReports, createDevPageMiddleware } from '../dist/dev-links.js';
+import linkValidator from '../dist/index.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const publicDir = join(__dirname, 'fixtures/dev-public');
+
+const routes = [/^\/$/, /^\/docs\/?$/, /^\/blog\/([^/]+?)\/?$/, /^\/rss\.xml\/?$/];
+
+const page = `<html><body>
+<h2 id="intro">Intro</h2>
+<a href="/docs">Docs</a>
+<a href="/blog/first-post/">Post</a>
+<a href="/missing">Missing</a>
+<a href="/rss.xml">Feed</a>
+<img src="/favicon.svg" alt="Icon">
+<img src="/images/gone.png" alt="Gone">
+<script src="/_astro/hoisted.js"></script>
+<a href="#intro">Intro</a>
+<a href="#intr">Typo</a>
+<a href="/missing">Missing again</a>
+<a href="/admin/settings">Admin</a>
+<a href="https://example.invalid/">External</a>
+</body></html>`;
+
+describe('Dev Server Link Checking', () => {
+  before(async () => {
+    await fs.mkdir(join(publicDir, 'downloads'), { recursive: true });
+    await fs.writeFile(join(publicDir, 'favicon.svg'), '<svg></svg>');
+    await fs.writeFile(join(publicDir, 'downloads/index.html'), '<html></html>');
+  });
+
+  after(async () => {
+    await fs.rm(publicDir, { recursive: true, force: true });
+  });
+
+  const createChecker = (settings = {}, options = {}) => createDevLinkChecker({
+    routes: () => routes,
+    publicDir,
+    base: '',
+    trailingSlash: 'ignore',
+    options: { exclude: ['/admin/*'], ...options },
+    ...settings
+  });
+
+  it('should resolve links against routes and public files', async () => {
+    const report = await createChecker().checkPage('/blog/first-post/', page);
+
+    assert.strictEqual(report.pathname, '/blog/first-post/');
+    assert.strictEqual(report.totalLinks, 12);
+    assert.deepStrictEqual(
+      report.brokenLinks.map(link => [link.href, link.reason, link.occurrence, link.line]),
+      [
+        ['/missing', 'not-found', 0, 5],
+        ['#intr', 'missing-anchor', 0, 11],
+        ['/missing', 'not-found', 1, 12],
+        ['/images/gone.png', 'not-found', 0, 8]
+      ]
+    );
+  });
+
+  it('should suggest ids for fragments missing from the page', async () => {
+    const report = await createChecker().checkPage('/docs', '<h2 id="install">Install</h2><a href="#instal">Typo</a><a href="/docs#install">Ok</a>');
+
+    assert.strictEqual(report.brokenLinks.length, 1);
+    assert.strictEqual(report.brokenLinks[0].error, 'Anchor #instal not found on this page');
+    assert.deepStrictEqual(report.brokenLinks[0].suggestions, ['install']);
+  });
+
+  it('should look up malformed fragments as written', async () => {
+    const report = await createChecker().checkPage('/docs', '<h2 id="100%">Full</h2><a href="#100%">Ok</a><a href="#50%">Missing</a>');
+
+    assert.deepStrictEqual(report.brokenLinks.map(link => [link.href, link.error]), [
+      ['#50%', 'Anchor #50% not found on this page']
+    ]);
+  });
+
+  it('should apply the base and trailing slash settings', async () => {
+    const checker = createChecker({ base: '/site', trailingSlash: 'always' });
+    const report = await checker.checkPage('/site/', '<a href="/site/docs/">Docs</a><a href="/site/docs">No slash</a><a href="/elsewhere/">Outside</a><a href="/site/downloads/">Downloads</a>');
+
+    assert.deepStrictEqual(report.brokenLinks.map(link => [link.href, link.reason]), [
+      ['/site/docs', 'trailing-slash'],
+      ['/elsewhere/', 'not-found']
+    ]);
+    assert.strictEqual(report.brokenLinks[1].error, 'Path is outside the site base /site/');
+  });
+
+  it('should only check external links when asked to', async () => {
+    const server = createServer((req, res) => {
+      res.writeHead(req.url === '/ok' ? 200 : 404);
+      res.end();
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${server.address().port}`;
+    const html = `<a href="${origin}/ok">Ok</a><a href="${origin}/gone">Gone</a>`;
+
+    try {
+      assert.strictEqual((await createChecker().checkPage('/', html)).brokenLinks.length, 0);
+
+      const report = await createChecker({}, { devToolbar: { checkExternal: true }, externalRetries: 0 }).checkPage('/', html);
+      assert.deepStrictEqual(report.brokenLinks.map(link => [link.href, link.reason]), [[`${origin}/gone`, 'network-error']]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should pass the HTML pages the dev server sends to the checker', async () => {
+    const pages = [];
+    const middleware = createDevPageMiddleware((pathname, html) => pages.push({ pathname, html }));
+
+    const server = createServer((req, res) => {
+      middleware(req, res, () => {
+        if (req.url.startsWith('/data')) {
+          res.writeHead(200, { 'content-type': 'application/json' });
+          res.end('{}');
+          return;
+        }
+
+        // Pages are streamed in chunks
+        res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+        res.write('<html><body>');
+        res.write(Buffer.from('<a href="/docs">Docs</a>'));
+        res.end('</body></html>');
+      });
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${server.address().port}`;
+
+    try {
+      const response = await fetch(`${origin}/blog/post/?draft=1`, { headers: { accept: 'text/html' } });
+      assert.strictEqual(await response.text(), '<html><body><a href="/docs">Docs</a></body></html>');
+      await (await fetch(`${origin}/data`, { headers: { accept: 'text/html' } })).text();
+      await (await fetch(`${origin}/other`, { headers: { accept: 'application/json' } })).text();
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    assert.deepStrictEqual(pages, [
+      { pathname: '/blog/post/', html: '<html><body><a href="/docs">Docs</a></body></html>' }
+    ]);
+  });
+
+  it('should send reports to the toolbar and render pages again on request', async () => {
+    const sent = [];
+    const handlers = new Map();
+    const toolbar = {
+      send: (event, payload) => sent.push({ event, payload }),
+      on: (event, callback) => handlers.set(event, callback)
+    };
+    const rendered = [];
+
+    const reports = createDevLinkReports(createChecker());
+    reports.connect(toolbar, async (pathname) => { rendered.push(pathname); });
+
+    reports.pageServed('/docs', '<a href="/missing">Missing</a>');
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(sent.length, 1);
+    assert.strictEqual(sent[0].event, 'astro-link-validator:report');
+    assert.deepStrictEqual(sent[0].payload.brokenLinks.map(link => link.href), ['/missing']);
+
+    // The app asks for its page when it starts, and again when files change
+    handlers.get('astro-link-validator:page')({ pathname: '/docs', refresh: false });
+    handlers.get('astro-link-validator:page')({ pathname: '/blog/post/', refresh: false });
+    handlers.get('astro-link-validator:page')({ pathname: '/docs', refresh: true });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(sent.length, 2);
+    assert.deepStrictEqual(rendered, ['/blog/post/', '/docs']);
+
+    reports.filesChanged();
+    reports.filesChanged();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.deepStrictEqual(sent.slice(2).map(({ event }) => event), ['astro-link-validator:stale']);
+  });
+
+  it('should turn the dev check off when Astro reports no routes', async () => {
+    const integration = linkValidator();
+    const warnings = [];
+    const logger = { info() {}, warn: (message) => warnings.push(message), error() {} };
+    const sent = [];
+    const handlers = new Map();
+    const toolbar = {
+      send: (event, payload) => sent.push({ event, payload }),
+      on: (event, callback) => handlers.set(event, callback)
+    };
+
+    // Astro 4 goes from astro:config:done to astro:server:setup without astro:routes:resolved
+    await integration.hooks['astro:config:setup']({ command: 'dev', config: {}, logger, addDevToolbarApp() {}, updateConfig() {} });
+    integration.hooks['astro:config:done']({
+      config: {
+        root: pathToFileURL(join(publicDir, '/')),
+        srcDir: pathToFileURL(join(publicDir, 'src/')),
+        publicDir: pathToFileURL(join(publicDir, '/')),
+        base: '/',
+        trailingSlash: 'ignore'
+      },
+      logger
+    });
+    integration.hooks['astro:server:setup']({ server: {}, toolbar, logger });
+
+    assert.deepStrictEqual(warnings, ['Links are checked on build only: checking them in dev needs the routes Astro 5 and later report']);
+    handlers.get('astro-link-validator:page')({ pathname: '/', refresh: false });
+    assert.deepStrictEqual(sent.map(({ event }) => event), ['astro-link-validator:unavailable']);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer } from 'node:http';
+import { checkLinks } from '../dist/link-checker.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const testDir = join(__dirname, 'fixtures/external-cache-test');
+const buildDir = join(testDir, 'dist');
+const cachePath = join(testDir, 'cache/external-links.json');
+
+describe('External Link Cache', () => {
+  let server;
+  let origin;
+  const requests = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push(req.url);
+      res.writeHead(req.url === '/ok' ? 200 : 404);
+      res.end();
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${server.address().port}`;
+
+    await fs.mkdir(buildDir, { recursive: true });
+    await fs.writeFile(join(buildDir, 'index.html'), `
+      <html><body>
+        <a href="${origin}/ok">Valid</a>
+        <a href="${origin}/broken">Broken</a>
+      </body></html>
+    `);
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const run = (externalCache) => checkLinks(buildDir, { checkExternal: true, externalCache });
+
+  const resetCache = async (entries) => {
+    requests.length = 0;
+    await fs.rm(cachePath, { force: true });
+    if (entries) {
+      await fs.mkdir(dirname(cachePath), { recursive: true });
+      await fs.writeFile(cachePath, JSON.stringify({ version: 1, entries }));
+    }
+  };
+
+  it('should store results and reuse them on the next run', async () => {
+    await resetCache();
+
+    const first = await run({ path: cachePath });
+    assert.deepStrictEqual(requests, ['/ok', '/broken', '/broken'], 'First run should request every URL, retrying the broken one with GET');
+    assert.deepStrictEqual(first.brokenLinks.map(link => link.href), [`${origin}/broken`]);
+
+    const cache = JSON.parse(await fs.readFile(cachePath, 'utf-8'));
+    assert.strictEqual(cache.entries[`${origin}/ok`].status, 200);
+    assert.strictEqual(cache.entries[`${origin}/ok`].reason, null);
+    assert.strictEqual(cache.entries[`${origin}/broken`].reason, 'network-error');
+    assert(typeof cache.entries[`${origin}/broken`].checkedAt === 'number', 'Should record when the URL was checked');
+
+    requests.length = 0;
+    const second = await run({ path: cachePath });
+    assert.strictEqual(requests.length, 0, 'Second run should be served from the cache');
+    assert.deepStrictEqual(second.brokenLinks.map(link => link.href), [`${origin}/broken`], 'Cached failures are still reported');
+  });
+
+  it('should re-check only entries older than their TTL', async () => {
+    const now = Date.now();
+    await resetCache({
+      [`${origin}/ok`]: { status: 200, reason: null, checkedAt: now - 1000 },
+      [`${origin}/broken`]: { status: 404, reason: 'network-error', error: 'HTTP 404: Not Found', checkedAt: now - 1000 }
+    });
+
+    await run({ path: cachePath, successTtl: 60_000, failureTtl: 500 });
+
+    assert.deepStrictEqual([...new Set(requests)], ['/broken'], 'Only the expired failure should be re-checked');
+  });
+
+  it('should re-check every URL when refresh is all', async () => {
+    const now = Date.now();
+    await resetCache({
+      [`${origin}/ok`]: { status: 200, reason: null, checkedAt: now },
+      [`${origin}/broken`]: { status: 404, reason: 'network-error', error: 'HTTP 404: Not Found', checkedAt: now }
+    });
+
+    await run({ path: cachePath, refresh: 'all' });
+
+    assert.deepStrictEqual([...new Set(requests)], ['/ok', '/broken'], 'Every URL should be requested');
+  });
+
+  it('should not touch the cache when external checking is off', async () => {
+    await resetCache();
+
+    await checkLinks(buildDir, { checkExternal: false, externalCache: { path: cachePath } });
+
+    await assert.rejects(fs.access(cachePath), 'No cache file should be written');
+  });
+
+  it('should classify cached statuses against the current accepted status codes', async () => {
+    const now = Date.now();
+    await resetCache({
+      [`${origin}/ok`]: { status: 999, reason: null, checkedAt: now },
+      [`${origin}/broken`]: { status: 403, reason: 'network-error', error: 'HTTP 403: Forbidden', checkedAt: now }
+    });
+
+    // 403 is accepted now, and 999 no longer is
+    const result = await checkLinks(buildDir, {
+      checkExternal: true,
+      externalCache: { path: cachePath },
+      externalDomains: { '127.0.0.1': { acceptedStatusCodes: [403] } }
+    });
+
+    assert.deepStrictEqual(result.brokenLinks, []);
+    assert.deepStrictEqual(requests, ['/ok'], 'Only the entry that is no longer accepted should be re-checked');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer } from 'node:http';
+import { checkLinks } from '../dist/link-checker.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const testDir = join(__dirname, 'fixtures/external-requests-test');
+
+describe('External Request Strategy', () => {
+  let server;
+  let origin;
+  const requests = [];
+  let streamClosed = false;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers });
+
+      switch (req.url) {
+        case '/head-not-allowed':
+          res.writeHead(req.method === 'HEAD' ? 405 : 200);
+          res.end();
+          break;
+        case '/linkedin':
+          res.writeHead(999);
+          res.end();
+          break;
+        case '/forbidden':
+          res.writeHead(403);
+          res.end();
+          break;
+        case '/private':
+          res.writeHead(req.headers.authorization === 'Bearer secret' && req.headers.cookie === 'session=abc; theme=dark' ? 200 : 401);
+          res.end();
+          break;
+        case '/slow':
+          setTimeout(() => {
+            res.writeHead(200);
+            res.end();
+          }, 300);
+          break;
+        case '/stream':
+          if (req.method === 'HEAD') {
+            res.writeHead(403);
+            res.end();
+            break;
+          }
+          // Send headers and part of a body that never finishes
+          req.on('close', () => { streamClosed = true; });
+          res.writeHead(200);
+          res.write('x'.repeat(1024));
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const check = async (name, hrefs, options = {}) => {
+    requests.length = 0;
+    const buildDir = join(testDir, name);
+    await fs.mkdir(buildDir, { recursive: true });
+    const links = hrefs.map(href => `<a href="${origin}${href}">Link</a>`).join('\n');
+    await fs.writeFile(join(buildDir, 'index.html'), `<html><body>${links}</body></html>`);
+    return checkLinks(buildDir, { checkExternal: true, externalRetries: 0, ...options });
+  };
+
+  it('should fall back to GET when HEAD is rejected', async () => {
+    const result = await check('get-fallback', ['/head-not-allowed']);
+
+    assert.strictEqual(result.brokenLinks.length, 0);
+    assert.deepStrictEqual(requests.map(request => request.method), ['HEAD', 'GET']);
+  });
+
+  it('should stop downloading the body of a GET fallback', async () => {
+    const result = await check('stream', ['/stream']);
+
+    assert.strictEqual(result.brokenLinks.length, 0);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert(streamClosed, 'The GET request should be closed without reading the whole body');
+  });
+
+  it('should accept globally configured status codes', async () => {
+    const broken = await check('global-default', ['/forbidden']);
+    assert.strictEqual(broken.brokenLinks.length, 1, '403 is broken by default');
+
+    const accepted = await check('global-accepted', ['/forbidden'], { acceptedStatusCodes: [403] });
+    assert.strictEqual(accepted.brokenLinks.length, 0);
+  });
+
+  it('should accept status codes configured for a domain', async () => {
+    const result = await check('domain-accepted', ['/linkedin'], {
+      externalDomains: { '127.0.0.1': { acceptedStatusCodes: [999] } }
+    });
+
+    assert.strictEqual(result.brokenLinks.length, 0);
+  });
+
+  it('should send per-domain headers, cookies and User-Agent', async () => {
+    const result = await check('domain-headers', ['/private'], {
+      externalDomains: {
+        '127.0.0.1': {
+          headers: { Authorization: 'Bearer secret' },
+          cookies: { session: 'abc', theme: 'dark' },
+          userAgent: 'docs-checker/2.0'
+        }
+      }
+    });
+
+    assert.strictEqual(result.brokenLinks.length, 0);
+    assert.strictEqual(requests[0].headers['user-agent'], 'docs-checker/2.0');
+  });
+
+  it('should not apply domain settings to other hosts', async () => {
+    const result = await check('other-domain', ['/private'], {
+      externalDomains: { '*.example.com': { headers: { Authorization: 'Bearer secret' } } }
+    });
+
+    assert.strictEqual(result.brokenLinks.length, 1);
+    assert.match(requests[0].headers['user-agent'], /astro-link-checker/);
+  });
+
+  it('should use a per-domain timeout', async () => {
+    const result = await check('domain-timeout', ['/slow'], {
+      externalTimeout: 5000,
+      externalDomains: { '127.0.0.1': { timeout: 50 } }
+    });
+
+    assert.strictEqual(result.brokenLinks.length, 1);
+    assert.strictEqual(result.brokenLinks[0].reason, 'timeout');
+    assert.strictEqual(result.brokenLinks[0].error, 'Request timeout after 50ms');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { createServer } from 'node:http';
+import { checkLinks } from '../dist/link-checker.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const testDir = join(__dirname, 'fixtures/external-scheduler-test');
+
+describe('External Link Scheduler', () => {
+  let server;
+  let origin;
+  const requests = [];
+  const attempts = new Map();
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      const attempt = (attempts.get(req.url) ?? 0) + 1;
+      attempts.set(req.url, attempt);
+
+      if (req.url === '/flaky') {
+        res.writeHead(attempt === 1 ? 503 : 200, { 'Retry-After': '0' });
+        res.end();
+        return;
+      }
+
+      if (req.url === '/rate-limited') {
+        res.writeHead(429);
+        res.end();
+        return;
+      }
+
+      if (req.url === '/missing') {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        res.writeHead(200);
+        res.end();
+      }, 30);
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const reset = () => {
+    requests.length = 0;
+    attempts.clear();
+    maxInFlight = 0;
+  };
+
+  const writePages = async (name, pages) => {
+    const buildDir = join(testDir, name);
+    await fs.mkdir(buildDir, { recursive: true });
+    for (const [file, hrefs] of Object.entries(pages)) {
+      const links = hrefs.map(href => `<a href="${origin}${href}">Link</a>`).join('\n');
+      await fs.writeFile(join(buildDir, file), `<html><body>${links}</body></html>`);
+    }
+    return buildDir;
+  };
+
+  it('should request each unique URL once per run', async () => {
+    reset();
+    const buildDir = await writePages('dedupe', {
+      'index.html': ['/shared', '/shared', '/missing'],
+      'a.html': ['/shared', '/missing'],
+      'b.html': ['/shared'],
+      'c.html': ['/shared', '/missing']
+    });
+
+    const result = await checkLinks(buildDir, { checkExternal: true });
+
+    assert.deepStrictEqual(requests.sort(), ['GET /missing', 'HEAD /missing', 'HEAD /shared'], 'Broken URLs are retried once with GET');
+    assert.strictEqual(result.brokenLinks.length, 3, 'Every link to a broken URL is still reported');
+    assert(result.brokenLinks.every(link => link.href === `${origin}/missing`));
+  });
+
+  it('should limit concurrent requests to a single host', async () => {
+    reset();
+    const buildDir = await writePages('host-limit', {
+      'index.html': ['/slow-1', '/slow-2', '/slow-3', '/slow-4', '/slow-5', '/slow-6']
+    });
+
+    const result = await checkLinks(buildDir, { checkExternal: true, externalHostConcurrency: 2 });
+
+    assert.strictEqual(result.brokenLinks.length, 0);
+    assert.strictEqual(requests.length, 6);
+    assert(maxInFlight <= 2, `Expected at most 2 requests in flight, saw ${maxInFlight}`);
+  });
+
+  it('should apply the global limit when it is lower than the per-host limit', async () => {
+    reset();
+    const buildDir = await writePages('global-limit', {
+      'index.html': ['/slow-1', '/slow-2', '/slow-3', '/slow-4']
+    });
+
+    await checkLinks(buildDir, { checkExternal: true, externalConcurrency: 1, externalHostConcurrency: 4 });
+
+    assert.strictEqual(maxInFlight, 1);
+  });
+
+  it('should retry a 503 response after the Retry-After delay', async () => {
+    reset();
+    const buildDir = await writePages('retry', { 'index.html': ['/flaky'] });
+
+    const result = await checkLinks(buildDir, { checkExternal: true, externalRetryDelay: 10 });
+
+    assert.strictEqual(result.brokenLinks.length, 0, 'The retried request succeeds');
+    assert.deepStrictEqual(requests, ['HEAD /flaky', 'HEAD /flaky']);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    reset();
+    const buildDir = await writePages('give-up', { 'index.html': ['/rate-limited', '/missing'] });
+
+    const result = await checkLinks(buildDir, { checkExternal: true, externalRetries: 2, externalRetryDelay: 5 });
+
+    assert.strictEqual(attempts.get('/rate-limited'), 3, 'One request plus two retries');
+    assert.strictEqual(attempts.get('/missing'), 2, 'A 404 is not retried beyond the GET fallback');
+    assert.deepStrictEqual(result.brokenLinks.map(link => link.error).sort(), [
+      'HTTP 404: Not Found',
+      'HTTP 429: Too Many Requests'
+    ]);
+  });
+});
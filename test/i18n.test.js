@@ -0,0 +1,141 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { execFile } from 'node:child_process';
+import { checkLinks } from '../dist/link-checker.js';
+import { validateI18n } from '../dist/i18n.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/i18n-build');
+const cliPath = join(__dirname, '../dist/cli.js');
+
+const page = (alternates, hrefs = []) => `<html><head>
+${Object.entries(alternates).map(([hreflang, href]) => `<link rel="alternate" hreflang="${hreflang}" href="${href}">`).join('\n')}
+</head><body id="top">
+${hrefs.map(href => `<a href="${href}">Link</a>`).join('\n')}
+</body></html>`;
+
+const files = {
+  'index.html': page({ en: '/', fr: '/fr/', 'x-default': '/' }, ['/about/', '/fr/']),
+  'fr/index.html': page({ en: '/', 'x-default': '/' }, ['/fr/about/', '/']),
+  'about/index.html': page({ en: '/about/', fr: '/fr/about/', 'x-default': '/about/' }, ['/fr/about/', '/pricing/']),
+  'fr/about/index.html': page({ fr: '/fr/about/', en: '/about/', 'x-default': '/about/' }, ['/about/', '/pricing/', '/contact/', '#top']),
+  'pricing/index.html': page({ en: '/pricing/', fr: 'https://example.com/fr/pricing/' }),
+  'fr/pricing/index.html': page({ fr: '/fr/pricing/', 'x-default': '/pricing/' }),
+  'contact/index.html': page({})
+};
+
+const i18n = { defaultLocale: 'en', locales: ['en', 'fr'] };
+
+const describeIssues = (issues) => issues
+  .map(issue => [issue.page, issue.reason, issue.href ?? null])
+  .sort((a, b) => a.join().localeCompare(b.join()));
+
+describe('Multilingual Sites', () => {
+  before(async () => {
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(dirname(join(buildDir, file)), { recursive: true });
+      await fs.writeFile(join(buildDir, file), content);
+    }
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('should report hreflang alternates that are incomplete or not reciprocal', async () => {
+    const result = await checkLinks(buildDir, { checkI18n: true, siteOrigins: ['https://example.com'] }, { i18n });
+
+    assert.strictEqual(result.brokenLinks.length, 0);
+    assert.deepStrictEqual(describeIssues(result.i18nIssues.filter(issue => issue.reason !== 'cross-locale-link')), [
+      ['fr/index.html', 'missing-self-reference', null],
+      ['pricing/index.html', 'missing-return-link', 'https://example.com/fr/pricing/'],
+      ['pricing/index.html', 'missing-x-default', null]
+    ]);
+
+    const returnLink = result.i18nIssues.find(issue => issue.reason === 'missing-return-link');
+    assert.strictEqual(returnLink.error, 'Alternate fr/pricing/index.html (hreflang="fr") has no hreflang alternate pointing back to this page');
+    assert.strictEqual(returnLink.line, 3);
+  });
+
+  it('should flag links into another locale that has an equivalent page', async () => {
+    const result = await checkLinks(buildDir, { checkI18n: true, siteOrigins: ['https://example.com'] }, { i18n });
+    const crossLocale = result.i18nIssues.filter(issue => issue.reason === 'cross-locale-link');
+
+    // Language switchers and pages without a French version are fine
+    assert.deepStrictEqual(crossLocale.map(issue => [issue.page, issue.href, issue.suggestion]), [
+      ['fr/about/index.html', '/pricing/', '/fr/pricing/']
+    ]);
+    assert.strictEqual(crossLocale[0].error, 'Links to a en page from a fr page; the fr equivalent is /fr/pricing/');
+  });
+
+  it('should give i18n issues the severity of matching rules', async () => {
+    const result = await checkLinks(buildDir, {
+      checkI18n: true,
+      siteOrigins: ['https://example.com'],
+      rules: [
+        { reason: 'cross-locale-link', href: '/pricing/', severity: 'off' },
+        { reason: 'missing-x-default', sourceFile: 'pricing/**', severity: 'error' }
+      ]
+    }, { i18n });
+
+    assert.deepStrictEqual(result.i18nIssues.map(issue => [issue.page, issue.reason, issue.severity]).sort(), [
+      ['fr/index.html', 'missing-self-reference', 'warn'],
+      ['pricing/index.html', 'missing-return-link', 'warn'],
+      ['pricing/index.html', 'missing-x-default', 'error']
+    ]);
+  });
+
+  it('should match locales by their codes under a base with prefixed default locales', () => {
+    const link = (href, source) => ({ href, text: '', sourceFile: '', type: 'internal', source });
+    const pages = [
+      { page: 'en/index.html', links: [link('/docs/en/', 'link[hreflang=en-US]'), link('/docs/deutsch/', 'link[hreflang=de-DE]'), link('/docs/en/', 'link[hreflang=x-default]')] },
+      { page: 'deutsch/index.html', links: [link('/docs/deutsch/', 'link[hreflang=de]'), link('/docs/en/', 'link[hreflang=en]'), link('/docs/en/', 'link[hreflang=x-default]')] },
+      { page: 'deutsch/faq/index.html', links: [link('../../en/faq/', 'a[href]'), link('/docs/en/', 'a[href]')] },
+      { page: 'en/faq/index.html', links: [] },
+      { page: 'index.html', links: [link('/docs/en/faq/', 'a[href]')] }
+    ];
+
+    const issues = validateI18n(pages, {
+      i18n: { defaultLocale: 'en', locales: ['en', { path: 'deutsch', codes: ['de'] }], routing: { prefixDefaultLocale: true } },
+      base: '/docs',
+      siteOrigins: []
+    });
+
+    // The unprefixed root page belongs to no locale
+    assert.deepStrictEqual(issues.map(issue => [issue.page, issue.href, issue.suggestion]), [
+      ['deutsch/faq/index.html', '/docs/en/', '/docs/deutsch/']
+    ]);
+  });
+
+  it('should warn when the project has no i18n config', async () => {
+    const warnings = [];
+    const originalWarn = console.warn;
+    console.warn = (message) => warnings.push(message);
+
+    let result;
+    try {
+      result = await checkLinks(buildDir, { checkI18n: true });
+    } finally {
+      console.warn = originalWarn;
+    }
+
+    assert.strictEqual(result.i18nIssues, undefined);
+    assert.deepStrictEqual(warnings, ['Warning: checkI18n is set but the project has no i18n config']);
+  });
+
+  it('should check locales from the command line', async () => {
+    const { code, stdout } = await new Promise((resolve) => {
+      execFile(process.execPath, [cliPath, 'check', buildDir, '--i18n', 'en,fr', '--site', 'https://example.com', '--format', 'json'], (error, stdout) => {
+        resolve({ code: error ? error.code : 0, stdout });
+      });
+    });
+
+    assert.strictEqual(code, 0);
+    assert.strictEqual(JSON.parse(stdout).i18nIssues.length, 4);
+  });
+});
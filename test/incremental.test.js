@@ -0,0 +1,100 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/incremental-build');
+const manifestPath = join(__dirname, 'fixtures/incremental-manifest.json');
+
+const page = (...hrefs) => `<html><body>${hrefs.map(href => `<a href="${href}">Link</a>`).join('\n')}</body></html>`;
+
+describe('Incremental Validation', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'docs'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'index.html'), page('/docs/intro', '/docs/setup#install', '/docs/upcoming', '/old'));
+    await fs.writeFile(join(buildDir, 'docs/intro.html'), page('/', 'setup', '#top'));
+    await fs.writeFile(join(buildDir, 'docs/setup.html'), '<html><body><h2 id="install">Install</h2><a href="/">Home</a></body></html>');
+    await fs.writeFile(join(buildDir, '_redirects'), '/old /docs/intro 301\n');
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+    await fs.rm(manifestPath, { force: true });
+  });
+
+  const options = { redirectsFile: '_redirects', orphanPages: true, redirectedLinks: true };
+
+  // Run incrementally and in full, and check both agree
+  const checkBoth = async () => {
+    const messages = [];
+    const originalLog = console.log;
+    console.log = (message) => messages.push(message);
+
+    let incremental;
+    try {
+      incremental = await checkLinks(buildDir, { ...options, incremental: { path: manifestPath }, verbose: true });
+    } finally {
+      console.log = originalLog;
+    }
+
+    const full = await checkLinks(buildDir, options);
+    assert.deepStrictEqual(incremental, full);
+
+    const reuse = messages.find(message => message.startsWith('♻️'));
+    const [, links, files, resolutions, hrefs] = reuse.match(/links of (\d+) of (\d+) files and (\d+) of (\d+) href/).map(Number);
+    return { result: incremental, links, files, resolutions, hrefs };
+  };
+
+  it('should reuse everything when nothing changed', async () => {
+    const first = await checkBoth();
+    assert.strictEqual(first.links, 0, 'The first run has no manifest');
+    assert.deepStrictEqual(first.result.brokenLinks.map(link => link.href), ['/docs/upcoming']);
+
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    assert.deepStrictEqual(Object.keys(manifest.files), ['docs/intro.html', 'docs/setup.html', 'index.html']);
+
+    const second = await checkBoth();
+    assert.strictEqual(second.links, second.files);
+    assert.strictEqual(second.resolutions, second.hrefs);
+  });
+
+  it('should re-extract only changed files', async () => {
+    await fs.writeFile(join(buildDir, 'docs/intro.html'), page('/', 'setup', '#top', '/docs/missing'));
+
+    const { result, links, files } = await checkBoth();
+    assert.strictEqual(links, files - 1);
+    assert(result.brokenLinks.some(link => link.href === '/docs/missing' && link.sourceFile.endsWith('intro.html')));
+  });
+
+  it('should re-check links to pages that appear or disappear', async () => {
+    await fs.writeFile(join(buildDir, 'docs/upcoming.html'), page('/'));
+    let { result } = await checkBoth();
+    assert(!result.brokenLinks.some(link => link.href === '/docs/upcoming'), 'A new page resolves links that were broken');
+
+    await fs.rm(join(buildDir, 'docs/upcoming.html'));
+    ({ result } = await checkBoth());
+    assert(result.brokenLinks.some(link => link.href === '/docs/upcoming'), 'Links to a deleted page are broken again');
+  });
+
+  it('should re-check fragments when the target page changes', async () => {
+    await fs.writeFile(join(buildDir, 'docs/setup.html'), '<html><body><h2 id="installation">Install</h2><a href="/">Home</a></body></html>');
+
+    const { result, links, files } = await checkBoth();
+    assert.strictEqual(links, files - 1, 'Only the target page is re-extracted');
+    assert(result.brokenLinks.some(link => link.href === '/docs/setup#install' && link.reason === 'missing-anchor'));
+  });
+
+  it('should start over when the settings change', async () => {
+    await checkBoth();
+    await fs.writeFile(join(buildDir, '_redirects'), '/old /docs/setup 301\n');
+
+    const { links, resolutions } = await checkBoth();
+    assert.strictEqual(links, 0);
+    assert.strictEqual(resolutions, 0);
+  });
+});
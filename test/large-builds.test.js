@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { indexBuildDirectory, resolveBuildFile } from '../dist/build-index.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/large-build');
+
+const PAGE_COUNT = 30;
+
+describe('Large Builds', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'docs'), { recursive: true });
+    await fs.mkdir(join(buildDir, 'guide'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'guide/index.html'), '<html><body><h2 id="install">Install</h2></body></html>');
+    await fs.writeFile(join(buildDir, 'styles.css'), '.hero { background: url(/images/missing.png); }');
+    await fs.writeFile(join(buildDir, 'index.html'), '<html><body><a href="/docs/page-0">First</a></body></html>');
+
+    for (let i = 0; i < PAGE_COUNT; i++) {
+      await fs.writeFile(join(buildDir, `docs/page-${i}.html`), `
+        <html><body>
+          <a href="/guide/#install">Install</a>
+          <a href="/guide/#instal">Typo</a>
+          <a href="/docs/page-${(i + 1) % PAGE_COUNT}">Next</a>
+          <a href="page-${i}#top">Self</a>
+          <a href="/deleted">Deleted</a>
+        </body></html>
+      `);
+    }
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  const summarize = (result) => ({
+    totalLinks: result.totalLinks,
+    checkedFiles: [...result.checkedFiles].sort(),
+    brokenLinks: result.brokenLinks
+      .map(link => [link.sourceFile, link.href, link.reason, link.error, link.line])
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))),
+    pages: result.linkGraph.pages
+  });
+
+  it('should give the same results on worker threads as on the main thread', async () => {
+    const options = { include: ['**/*.html', '**/*.css'], linkGraph: [] };
+    const mainThread = await checkLinks(buildDir, { ...options, parseWorkers: 0 });
+    const workers = await checkLinks(buildDir, { ...options, parseWorkers: 2 });
+
+    assert.strictEqual(mainThread.brokenLinks.length, PAGE_COUNT * 2 + 1);
+    assert.deepStrictEqual(summarize(workers), summarize(mainThread));
+    assert.deepStrictEqual(workers.brokenLinks.find(link => link.reason === 'missing-anchor').suggestions, ['install']);
+  });
+
+  it('should report every link that shares a resolved href with its own location', async () => {
+    const result = await checkLinks(buildDir);
+    const deleted = result.brokenLinks.filter(link => link.href === '/deleted');
+
+    assert.strictEqual(deleted.length, PAGE_COUNT);
+    assert.strictEqual(new Set(deleted.map(link => link.sourceFile)).size, PAGE_COUNT);
+    assert(deleted.every(link => link.line === 7 && link.text === 'Deleted'));
+  });
+
+  it('should resolve build paths from the index', async () => {
+    const index = await indexBuildDirectory(buildDir);
+
+    assert(index.files.has(join(buildDir, 'docs/page-0.html')));
+    assert(index.directories.has(join(buildDir, 'guide')));
+    assert.strictEqual(await resolveBuildFile(join(buildDir, 'guide/'), index), join(buildDir, 'guide/index.html'));
+    assert.strictEqual(await resolveBuildFile(join(buildDir, 'docs/page-3'), index), join(buildDir, 'docs/page-3.html'));
+    assert.strictEqual(await resolveBuildFile(join(buildDir, 'docs/page-99'), index), null);
+  });
+
+  it('should show timings in verbose output', async () => {
+    const messages = [];
+    const originalLog = console.log;
+    console.log = (message) => messages.push(message);
+
+    try {
+      await checkLinks(buildDir, { verbose: true, parseWorkers: 1 });
+    } finally {
+      console.log = originalLog;
+    }
+
+    assert(messages.some(message => /^⏱️ {2}Indexed \d+ build files in [\d.]+m?s$/.test(message)));
+    assert(messages.some(message => /^⏱️ {2}Checked \d+ files in [\d.]+m?s using 1 parse worker$/.test(message)));
+    assert(messages.some(message => message === '⏱️  Resolved 64 distinct internal hrefs'), '151 links in pages and one in the stylesheet, with the relative ones resolved per page');
+  });
+});
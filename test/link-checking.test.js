@@ -128,6 +128,15 @@ describe('Configuration Options', () => {
     console.log('✅ Verbose mode works correctly');
   });
 
+  it('should print verbose progress with the logger option', async () => {
+    const mockBuildDir = join(__dirname, 'fixtures/mock-build');
+    const messages = [];
+
+    await checkLinks(mockBuildDir, { verbose: true, logger: message => messages.push(message) });
+
+    assert(messages.some(message => message.startsWith('⏱️  Indexed')), 'Progress should go to the logger');
+  });
+
   it('should handle different include patterns', async () => {
     const mockBuildDir = join(__dirname, 'fixtures/mock-build');
     
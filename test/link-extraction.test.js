@@ -1,7 +1,7 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
 import { promises as fs } from 'node:fs';
-import { extractLinksFromHtml } from '../dist/link-checker.js';
+import { extractLinksFromHtml, checkLinks } from '../dist/link-checker.js';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 
@@ -96,4 +96,127 @@ describe('Link Extraction', () => {
     
     console.log('✅ Srcset URLs properly extracted');
   });
-});
\ No newline at end of file
+
+  it('should record the line and column of each link', () => {
+    const html = [
+      '<html>',
+      '<body>',
+      '  <a href="/about">About</a>',
+      '    <img alt="Logo" src="/logo.png">',
+      '</body>',
+      '</html>'
+    ].join('\n');
+    const links = extractLinksFromHtml(html, '/test/page.html');
+
+    const about = links.find(link => link.href === '/about');
+    assert.strictEqual(about.line, 3, 'Should record the line of the href');
+    assert.strictEqual(about.column, 6, 'Should point at the href attribute');
+
+    const logo = links.find(link => link.href === '/logo.png');
+    assert.strictEqual(logo.line, 4, 'Should record the line of the src');
+    assert.strictEqual(logo.column, 21, 'Should point at the src attribute, not the tag');
+
+    console.log('✅ Link positions recorded');
+  });
+
+  it('should extract links from meta tags, forms, posters, objects and SVG references', () => {
+    const html = `
+      <html>
+      <head>
+        <meta property="og:image" content="https://example.com/og.png">
+        <meta name="twitter:image" content="/images/card.png">
+        <meta http-equiv="refresh" content="0; url='/new-home'">
+        <link rel="canonical" href="https://example.com/page">
+        <link rel="alternate" hreflang="fr" href="/fr/page">
+      </head>
+      <body>
+        <video poster="/images/poster.jpg"></video>
+        <object data="/files/diagram.svg"></object>
+        <form action="/search"></form>
+        <form action=""></form>
+        <svg><use href="/sprite.svg#icon-home"></use></svg>
+        <svg><use xlink:href="/sprite.svg#icon-menu"></use></svg>
+      </body>
+      </html>
+    `;
+    const links = extractLinksFromHtml(html, '/test/page.html');
+    const sources = Object.fromEntries(links.map(link => [link.href, link.source]));
+
+    assert.deepStrictEqual(sources, {
+      'https://example.com/og.png': 'meta[og:image]',
+      '/images/card.png': 'meta[twitter:image]',
+      '/new-home': 'meta[refresh]',
+      'https://example.com/page': 'link[rel=canonical]',
+      '/fr/page': 'link[hreflang=fr]',
+      '/images/poster.jpg': 'video[poster]',
+      '/files/diagram.svg': 'object[data]',
+      '/search': 'form[action]',
+      '/sprite.svg#icon-home': 'use[href]',
+      '/sprite.svg#icon-menu': 'use[xlink:href]'
+    });
+
+    assert.strictEqual(links.find(link => link.href === 'https://example.com/og.png').type, 'external');
+    assert.strictEqual(links.find(link => link.href === '/images/poster.jpg').type, 'asset');
+    assert.strictEqual(links.find(link => link.href === '/new-home').type, 'internal');
+  });
+
+  it('should tag every link with the element and attribute it came from', async () => {
+    const html = await fs.readFile(join(__dirname, 'fixtures/sample.html'), 'utf-8');
+    const links = extractLinksFromHtml(html, '/test/page.html');
+
+    assert(links.every(link => typeof link.source === 'string'), 'Every link should have a source');
+    assert.strictEqual(links.find(link => link.href === '/about').source, 'a[href]');
+    assert.strictEqual(links.find(link => link.href === '/images/small.jpg').source, 'img[srcset]');
+  });
+
+  it('should resolve relative links against <base href>', () => {
+    const page = (base) => `
+      <html><head><base href="${base}"></head>
+      <body>
+        <a href="guide/intro">Relative</a>
+        <a href="../other">Parent</a>
+        <a href="/absolute">Root-relative</a>
+        <a href="#section">Anchor</a>
+      </body></html>
+    `;
+
+    const rootRelative = extractLinksFromHtml(page('/docs/v2/'), '/test/page.html').map(link => link.href);
+    assert.deepStrictEqual(rootRelative, ['/docs/v2/guide/intro', '/docs/other', '/absolute', '/docs/v2/#section']);
+
+    const absolute = extractLinksFromHtml(page('https://example.com/docs/index.html'), '/test/page.html');
+    assert.deepStrictEqual(absolute.map(link => link.href), ['https://example.com/docs/guide/intro', 'https://example.com/other', '/absolute', 'https://example.com/docs/index.html#section']);
+    assert.strictEqual(absolute[0].type, 'external');
+
+    const relative = extractLinksFromHtml(page('sub/'), '/test/page.html').map(link => link.href);
+    assert.deepStrictEqual(relative, ['sub/guide/intro', 'other', '/absolute', 'sub/#section']);
+
+    const withFile = extractLinksFromHtml(page('/docs/page.html'), '/test/page.html').map(link => link.href);
+    assert.strictEqual(withFile[3], '/docs/page.html#section');
+  });
+
+  it('should check links resolved against <base href> against the build', async () => {
+    const buildDir = join(__dirname, 'fixtures/base-href-build');
+
+    try {
+      await fs.mkdir(join(buildDir, 'docs/guide'), { recursive: true });
+      await fs.writeFile(join(buildDir, 'docs/guide/intro.html'), '<html><body>Intro</body></html>');
+      await fs.writeFile(join(buildDir, 'index.html'), `
+        <html><head><base href="/docs/"></head>
+        <body>
+          <a href="guide/intro.html">Exists under the base</a>
+          <a href="guide/missing.html">Missing</a>
+          <a href="#intro">Fragment on the base page</a>
+          <a href="#here">Fragment on this page only</a>
+          <h2 id="here">Here</h2>
+        </body></html>
+      `);
+      await fs.writeFile(join(buildDir, 'docs/index.html'), '<html><body><h2 id="intro">Intro</h2></body></html>');
+
+      const result = await checkLinks(buildDir);
+
+      assert.deepStrictEqual(result.brokenLinks.map(link => link.href).sort(), ['/docs/#here', '/docs/guide/missing.html']);
+    } finally {
+      await fs.rm(buildDir, { recursive: true, force: true });
+    }
+  });
+});
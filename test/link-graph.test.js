@@ -0,0 +1,100 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { formatLinkGraph, writeLinkGraphs } from '../dist/link-graph.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/link-graph-build');
+const outputDir = join(__dirname, 'fixtures/link-graph-output');
+
+const page = (...hrefs) => `<html><body>${hrefs.map(href => `<a href="${href}">Link</a>`).join('')}</body></html>`;
+const orphans = (result) => result.orphanPages.map(orphan => orphan.page);
+
+describe('Link Graph', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'about'), { recursive: true });
+    await fs.mkdir(join(buildDir, 'blog'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'index.html'), page('/about/', '/blog/first', '#top', '/'));
+    await fs.writeFile(join(buildDir, 'about/index.html'), page('/', '/blog/first#intro'));
+    await fs.writeFile(join(buildDir, 'blog/first.html'), page('second'));
+    await fs.writeFile(join(buildDir, 'blog/second.html'), page('/missing'));
+    await fs.writeFile(join(buildDir, 'orphan.html'), page('/'));
+    await fs.writeFile(join(buildDir, 'listed.html'), page());
+    await fs.writeFile(join(buildDir, '404.html'), page('/'));
+    await fs.writeFile(join(buildDir, 'sitemap-index.xml'), `<?xml version="1.0" encoding="UTF-8"?>
+      <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/sitemap-0.xml</loc></sitemap>
+      </sitemapindex>`);
+    await fs.writeFile(join(buildDir, 'sitemap-0.xml'), `<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/</loc></url>
+        <url><loc>https://example.com/listed</loc></url>
+      </urlset>`);
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should build a page graph with in and out degrees', async () => {
+    const result = await checkLinks(buildDir, { linkGraph: { format: 'json', outputFile: join(outputDir, 'graph.json') } });
+    const pages = Object.fromEntries(result.linkGraph.pages.map(node => [node.page, node]));
+
+    assert.deepStrictEqual(pages['index.html'], {
+      page: 'index.html',
+      url: '/',
+      inDegree: 3,
+      outDegree: 2,
+      linksTo: ['about/index.html', 'blog/first.html']
+    });
+    assert.strictEqual(pages['about/index.html'].url, '/about/');
+    assert.strictEqual(pages['blog/first.html'].inDegree, 2, 'Links with fragments still count');
+    assert.deepStrictEqual(pages['blog/first.html'].linksTo, ['blog/second.html'], 'Relative links are resolved');
+    assert.strictEqual(pages['blog/second.html'].outDegree, 0, 'Broken links are not edges');
+    assert.strictEqual(result.orphanPages, undefined, 'Orphans are only reported when asked for');
+  });
+
+  it('should report pages no other page links to, except entry points', async () => {
+    const result = await checkLinks(buildDir, { orphanPages: true });
+
+    assert.deepStrictEqual(orphans(result), ['listed.html', 'orphan.html']);
+    assert.deepStrictEqual(result.orphanPages[0], { page: 'listed.html', reason: 'orphan-page', severity: 'warn' });
+  });
+
+  it('should treat sitemap pages as entry points when configured', async () => {
+    const result = await checkLinks(buildDir, { orphanPages: { sitemap: true } });
+
+    assert.deepStrictEqual(orphans(result), ['orphan.html']);
+  });
+
+  it('should accept custom entry point patterns', async () => {
+    const result = await checkLinks(buildDir, { orphanPages: { entryPoints: ['/', '/orphan', '*.html'] } });
+
+    assert.deepStrictEqual(orphans(result), []);
+
+    const strict = await checkLinks(buildDir, { orphanPages: { entryPoints: ['/orphan'] } });
+    assert.deepStrictEqual(orphans(strict), ['404.html', 'listed.html'], 'The home page is linked from other pages');
+  });
+
+  it('should export the graph as Graphviz DOT and JSON', async () => {
+    const result = await checkLinks(buildDir, { orphanPages: true });
+    const dot = formatLinkGraph(result.linkGraph, 'dot');
+
+    assert(dot.startsWith('digraph links {'), 'Should be a DOT digraph');
+    assert(dot.includes('"/" -> "/about/";'), 'Should include edges between page URLs');
+    assert(dot.includes('"/orphan" [label="/orphan\\nin 0, out 1", style=dashed];'), 'Should label nodes with their degrees');
+
+    const [jsonFile, dotFile] = await writeLinkGraphs(result.linkGraph, [
+      { format: 'json', outputFile: join(outputDir, 'graph.json') },
+      { format: 'dot', outputFile: join(outputDir, 'graph.dot') }
+    ]);
+    assert.deepStrictEqual(JSON.parse(await fs.readFile(jsonFile, 'utf-8')), result.linkGraph);
+    assert.strictEqual(await fs.readFile(dotFile, 'utf-8'), dot);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { resolvePageOrigins } from '../dist/page-origins.js';
+import linkValidator from '../dist/index.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const projectRoot = join(__dirname, 'fixtures/origin-project');
+const buildDir = join(projectRoot, 'dist');
+
+const routes = [
+  {
+    pattern: '/',
+    entrypoint: 'src/pages/index.astro',
+    patternRegex: /^\/$/,
+    params: []
+  },
+  {
+    pattern: '/blog/[slug]',
+    entrypoint: 'src/pages/blog/[slug].astro',
+    patternRegex: /^\/blog\/([^/]+?)\/?$/,
+    params: ['slug']
+  }
+];
+
+const assets = new Map([
+  ['/', [pathToFileURL(join(buildDir, 'index.html'))]],
+  ['/blog/[slug]', [pathToFileURL(join(buildDir, 'blog/hello-world/index.html'))]]
+]);
+
+describe('Page Origins', () => {
+  it('should map static routes to their page component', async () => {
+    const origins = await resolvePageOrigins(routes, assets, buildDir, projectRoot);
+
+    assert.strictEqual(origins['index.html'], 'src/pages/index.astro');
+  });
+
+  it('should map dynamic routes to the matching content entry', async () => {
+    const origins = await resolvePageOrigins(routes, assets, buildDir, projectRoot);
+
+    assert.strictEqual(origins['blog/hello-world/index.html'], 'src/content/blog/hello-world.md');
+  });
+
+  it('should fall back to the route component when no content entry matches', async () => {
+    const otherAssets = new Map([
+      ['/blog/[slug]', [pathToFileURL(join(buildDir, 'blog/not-a-post/index.html'))]]
+    ]);
+    const origins = await resolvePageOrigins(routes, otherAssets, buildDir, projectRoot);
+
+    assert.strictEqual(origins['blog/not-a-post/index.html'], 'src/pages/blog/[slug].astro');
+  });
+
+  it('should fall back to the route component when the path is not valid percent-encoding', async () => {
+    const otherAssets = new Map([
+      ['/blog/[slug]', [pathToFileURL(join(buildDir, 'blog/100%-done/index.html'))]]
+    ]);
+    const origins = await resolvePageOrigins(routes, otherAssets, buildDir, projectRoot);
+
+    assert.strictEqual(origins['blog/100%-done/index.html'], 'src/pages/blog/[slug].astro');
+  });
+
+  it('should report broken links with the file they came from', async () => {
+    const integration = linkValidator({ failOnBrokenLinks: false });
+    const logger = { info() {}, warn() {}, error() {} };
+
+    integration.hooks['astro:config:done']({ config: { root: pathToFileURL(join(projectRoot, '/')) }, logger });
+    integration.hooks['astro:routes:resolved']({
+      routes: routes.map(route => ({ ...route, type: 'page' })),
+      logger
+    });
+
+    const originalLog = console.log;
+    const output = [];
+    console.log = (...args) => output.push(args.join(' '));
+
+    try {
+      await integration.hooks['astro:build:done']({
+        dir: pathToFileURL(join(buildDir, '/')),
+        assets,
+        logger
+      });
+    } finally {
+      console.log = originalLog;
+    }
+
+    const heading = output.find(line => line.includes('blog/hello-world/index.html'));
+    assert(heading, 'Should print a heading for the built page');
+    assert(heading.includes('src/content/blog/hello-world.md'), `Heading should name the content entry, got: ${heading}`);
+    assert(output.some(line => line.includes('/missing-post') && line.includes('line 7')), 'Should print the line of the link');
+  });
+});
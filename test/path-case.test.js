@@ -0,0 +1,88 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { resolveBuildFileStrictCase } from '../dist/path-case.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/path-case-build');
+
+describe('Strict-Case Paths', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'images'), { recursive: true });
+    await fs.mkdir(join(buildDir, 'Blog/first-post'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'images/logo.png'), '');
+    await fs.writeFile(join(buildDir, 'Blog/first-post/index.html'), '<html><body><h2 id="intro">Intro</h2></body></html>');
+    await fs.writeFile(join(buildDir, 'About.html'), '<html><body></body></html>');
+    await fs.writeFile(join(buildDir, '_redirects'), '/old-logo /Images/logo.png 301\n');
+    await fs.writeFile(join(buildDir, 'index.html'), `
+      <html><body>
+        <img src="/images/logo.png" alt="Exact">
+        <img src="/Images/Logo.PNG" alt="Wrong case">
+        <a href="/Blog/first-post/#intro">Exact page</a>
+        <a href="/blog/First-Post/">Wrong case page</a>
+        <a href="/About">Exact .html page</a>
+        <a href="/about">Wrong case .html page</a>
+        <a href="images/LOGO.png">Relative</a>
+        <a href="/old-logo">Redirect to wrong case</a>
+        <a href="/missing.png">Missing</a>
+      </body></html>
+    `);
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('should report case mismatches with the correctly-cased path', async () => {
+    const result = await checkLinks(buildDir, { caseSensitivePaths: true, redirectsFile: '_redirects' });
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => [link.href, link.reason]), [
+      ['/blog/First-Post/', 'case-mismatch'],
+      ['/about', 'case-mismatch'],
+      ['images/LOGO.png', 'case-mismatch'],
+      ['/old-logo', 'case-mismatch'],
+      ['/missing.png', 'not-found'],
+      ['/Images/Logo.PNG', 'case-mismatch']
+    ]);
+
+    const errors = Object.fromEntries(result.brokenLinks.map(link => [link.href, link.error]));
+    assert.match(errors['/Images/Logo.PNG'], /\/images\/logo\.png$/);
+    assert.match(errors['/blog/First-Post/'], /\/Blog\/first-post\/$/);
+    assert.match(errors['/about'], /\/About$/);
+  });
+
+  it('should name the corrected path under the site base', async () => {
+    const result = await checkLinks(buildDir, { caseSensitivePaths: true, exclude: ['old-logo'] }, { base: '/docs' });
+    const relativeLink = result.brokenLinks.find(link => link.href === 'images/LOGO.png');
+
+    assert.match(relativeLink.error, /\/docs\/images\/logo\.png$/);
+  });
+
+  it('should resolve paths from directory listings, not the file system', async () => {
+    const cache = new Map();
+
+    const exact = await resolveBuildFileStrictCase(join(buildDir, 'Blog/first-post'), buildDir, cache);
+    assert.deepStrictEqual(exact, {
+      file: join(buildDir, 'Blog/first-post/index.html'),
+      correctedPath: 'Blog/first-post',
+      caseMismatch: false
+    });
+
+    const folded = await resolveBuildFileStrictCase(join(buildDir, 'ABOUT'), buildDir, cache);
+    assert.deepStrictEqual(folded, { file: join(buildDir, 'About.html'), correctedPath: 'About', caseMismatch: true });
+
+    assert.strictEqual(await resolveBuildFileStrictCase(join(buildDir, 'images/logo.png/extra'), buildDir, cache), null);
+    assert(cache.has(buildDir), 'Directory listings are cached');
+  });
+
+  it('should leave case to the file system by default', async () => {
+    const result = await checkLinks(buildDir, { redirectsFile: '_redirects' });
+
+    assert(!result.brokenLinks.some(link => link.reason === 'case-mismatch'));
+  });
+});
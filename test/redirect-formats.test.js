@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { parseRedirects, parseVercelRedirects, parseNetlifyToml, detectRedirectsFormat, loadRedirects, findRedirectRule, applyRedirectRule } from '../dist/redirects.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const formatsBuildDir = join(__dirname, 'fixtures/redirect-formats-build');
+
+const brokenHrefs = (result) => result.brokenLinks.map(link => link.href);
+
+describe('Redirect File Formats', () => {
+  it('should detect the format from the file name or content', () => {
+    assert.strictEqual(detectRedirectsFormat('/site/vercel.json', ''), 'vercel');
+    assert.strictEqual(detectRedirectsFormat('/site/netlify.toml', ''), 'netlify-toml');
+    assert.strictEqual(detectRedirectsFormat('/site/_redirects', '/a /b 301'), 'redirects');
+    assert.strictEqual(detectRedirectsFormat('/site/redirects', '{ "redirects": [] }'), 'vercel');
+    assert.strictEqual(detectRedirectsFormat('/site/redirects', '[[redirects]]\nfrom = "/a"'), 'netlify-toml');
+  });
+
+  it('should parse Vercel redirects and rewrites', () => {
+    const rules = parseVercelRedirects(JSON.stringify({
+      redirects: [
+        { source: '/old', destination: '/new', permanent: true },
+        { source: '/temp', destination: '/new', permanent: false },
+        { source: '/blog/:path*', destination: '/news/:path*', statusCode: 301 }
+      ],
+      rewrites: [{ source: '/app/(.*)', destination: '/index.html' }]
+    }));
+
+    assert.deepStrictEqual(rules, [
+      { from: '/old', to: '/new', status: 308, force: true },
+      { from: '/temp', to: '/new', status: 307, force: true },
+      { from: '/blog/*', to: '/news/:splat', status: 301, force: true },
+      { from: '/app/*', to: '/index.html', status: 200, force: false }
+    ]);
+  });
+
+  it('should parse Netlify [[redirects]] tables and ignore other tables', () => {
+    const rules = parseNetlifyToml([
+      '[build]',
+      '  publish = "dist"',
+      '[[redirects]]',
+      '  from = "/old" # comment',
+      "  to = '/new'",
+      '  status = 302',
+      '  force = true',
+      '  [redirects.headers]',
+      '    from = "/not-a-rule"',
+      '[[redirects]]',
+      '  from = "/docs/*"',
+      '  to = "/documentation/:splat"'
+    ].join('\n'));
+
+    assert.deepStrictEqual(rules, [
+      { from: '/old', to: '/new', status: 302, force: true },
+      { from: '/docs/*', to: '/documentation/:splat', status: 301, force: false }
+    ]);
+  });
+
+  it('should apply _redirects rules whether or not a file exists at the source', () => {
+    assert.deepStrictEqual(parseRedirects('/old /new\n/moved /new 302\n/forced /new 301!'), [
+      { from: '/old', to: '/new', status: 301 },
+      { from: '/moved', to: '/new', status: 302 },
+      { from: '/forced', to: '/new', status: 301 }
+    ]);
+  });
+
+  it('should substitute params by name and let a splat match no segments', () => {
+    const [swap, splat] = parseRedirects('/a/:x/:y /b/:y/:x\n/news/* /blog/:splat');
+
+    assert.strictEqual(applyRedirectRule('/a/one/two', swap), '/b/two/one');
+    assert.strictEqual(applyRedirectRule('/news/2024/launch', splat), '/blog/2024/launch');
+    assert.strictEqual(applyRedirectRule('/news', splat), '/blog/');
+    assert.strictEqual(findRedirectRule('/newsletter', [splat]), null, 'A splat after a slash needs the slash');
+
+    const [vercel] = parseVercelRedirects(JSON.stringify({ redirects: [{ source: '/blog/:path*', destination: '/news/:path*' }] }));
+    assert.strictEqual(findRedirectRule('/blog', [vercel]), vercel, ':path* matches the bare prefix');
+    assert.strictEqual(applyRedirectRule('/blog/a/b', vercel), '/news/a/b');
+  });
+
+  it('should combine rules from several redirect files', async () => {
+    const rules = await loadRedirects(formatsBuildDir, ['vercel.json', 'netlify.toml']);
+
+    assert(rules.some(rule => rule.from === '/vercel-old'), 'Should include rules from vercel.json');
+    assert(rules.some(rule => rule.from === '/netlify-old'), 'Should include rules from netlify.toml');
+  });
+
+  it('should validate links through vercel.json rules', async () => {
+    const result = await checkLinks(formatsBuildDir, {
+      checkExternal: false,
+      redirectsFile: 'vercel.json',
+      verbose: false
+    });
+
+    const hrefs = brokenHrefs(result);
+
+    assert(!hrefs.includes('/vercel-old'), '/vercel-old redirects to a real page');
+    assert(!hrefs.includes('/blog/launch'), '/blog/:path* should carry the path to /news/:path*');
+    assert(!hrefs.includes('/app/dashboard'), 'Rewrites should be followed');
+    assert(hrefs.includes('/vercel-gone'), 'A redirect to a missing page is still broken');
+  });
+
+  it('should validate links through netlify.toml rules', async () => {
+    const result = await checkLinks(formatsBuildDir, {
+      checkExternal: false,
+      redirectsFile: 'netlify.toml',
+      verbose: false
+    });
+
+    const hrefs = brokenHrefs(result);
+
+    assert(!hrefs.includes('/netlify-old'), '/netlify-old redirects to a real page');
+    assert(hrefs.includes('/netlify-gone'), 'A redirect to a missing page is still broken');
+    assert(!hrefs.includes('/static-page'), 'An existing page shadows an unforced rule');
+    assert(!hrefs.includes('/forced-page'), 'A forced rule is followed');
+  });
+});
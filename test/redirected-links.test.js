@@ -0,0 +1,88 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { formatReport } from '../dist/reporters.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/redirected-links-build');
+
+describe('Redirected Internal Links', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'docs'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'docs/guide.html'), '<html><body><h2 id="setup">Setup</h2></body></html>');
+    await fs.writeFile(join(buildDir, '_redirects'), [
+      '/old-guide /docs/guide 301',
+      '/older-guide /old-guide 302',
+      '/oldest-guide /older-guide 301',
+      '/guide /docs/guide 200',
+      '/gone /nowhere 301',
+      '/elsewhere https://example.org/ 301'
+    ].join('\n') + '\n');
+    await fs.writeFile(join(buildDir, 'index.html'), `
+      <html><body>
+        <a href="/docs/guide">Direct</a>
+        <a href="/old-guide#setup">One hop</a>
+        <a href="/oldest-guide">Three hops</a>
+        <a href="/guide">Rewrite</a>
+        <a href="/gone">Broken redirect</a>
+        <a href="/elsewhere">External redirect</a>
+      </body></html>
+    `);
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  const check = (options = {}) => checkLinks(buildDir, { redirectsFile: '_redirects', ...options });
+
+  it('should not report redirected links unless asked to', async () => {
+    const result = await check();
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => link.href), ['/gone']);
+    assert.deepStrictEqual(result.warnings, []);
+  });
+
+  it('should warn about links that go through redirects, with the chain and final target', async () => {
+    const result = await check({ redirectedLinks: true });
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => link.href), ['/gone'], 'Broken redirects stay broken');
+    assert.deepStrictEqual(result.warnings.map(link => link.href), ['/old-guide#setup', '/oldest-guide', '/guide', '/elsewhere']);
+    assert(result.warnings.every(link => link.reason === 'redirected'));
+
+    const [oneHop, threeHops, rewrite, external] = result.warnings;
+    assert.deepStrictEqual(oneHop.redirectChain, [{ from: '/old-guide', to: '/docs/guide', status: 301 }]);
+    assert.strictEqual(oneHop.error, 'Redirects to /docs/guide (1 hop: /old-guide → 301 → /docs/guide)');
+    assert.deepStrictEqual(threeHops.redirectChain.map(hop => hop.status), [301, 302, 301]);
+    assert.match(threeHops.error, /^Redirects to \/docs\/guide \(3 hops: \/oldest-guide → 301 → \/older-guide → 302 → \/old-guide → 301 → \/docs\/guide\)$/);
+    assert.deepStrictEqual(rewrite.redirectChain, [{ from: '/guide', to: '/docs/guide', status: 200 }], 'Rewrites are part of the chain');
+    assert.strictEqual(external.redirectChain[0].to, 'https://example.org/');
+  });
+
+  it('should report chains longer than maxHops as errors', async () => {
+    const result = await check({ redirectedLinks: { maxHops: 2 } });
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => link.href), ['/oldest-guide', '/gone']);
+    assert.match(result.brokenLinks[0].error, /more than the 2 allowed$/);
+    assert.strictEqual(result.warnings.length, 3);
+  });
+
+  it('should optionally report temporary redirects as errors', async () => {
+    const result = await check({ redirectedLinks: { failOnTemporary: true } });
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => link.href), ['/oldest-guide', '/gone']);
+    assert.match(result.brokenLinks[0].error, /through a temporary redirect$/);
+  });
+
+  it('should include the redirect chain in JSON reports', async () => {
+    const result = await check({ redirectedLinks: true });
+    const report = JSON.parse(formatReport(result, 'json', buildDir));
+
+    assert.deepStrictEqual(report.warnings[0].redirectChain, [{ from: '/old-guide', to: '/docs/guide', status: 301 }]);
+  });
+});
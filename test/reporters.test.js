@@ -0,0 +1,161 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { formatReport, writeReports } from '../dist/reporters.js';
+import linkValidator from '../dist/index.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const mockBuildDir = join(__dirname, 'fixtures/mock-build');
+
+const checkMockBuild = () => checkLinks(mockBuildDir, { checkExternal: false, verbose: false });
+
+describe('Report Formats', () => {
+  it('should write JSON with every broken link field', async () => {
+    const result = await checkMockBuild();
+    const report = JSON.parse(formatReport(result, 'json', mockBuildDir));
+
+    assert.strictEqual(report.summary.brokenLinks, result.brokenLinks.length);
+    assert.strictEqual(report.summary.totalLinks, result.totalLinks);
+
+    const missing = report.brokenLinks.find(link => link.href === '/missing-page');
+    assert(missing, 'Should include /missing-page');
+    assert.strictEqual(missing.sourceFile, 'index.html', 'Source file should be relative to the build directory');
+    assert.strictEqual(missing.type, 'internal');
+    assert.strictEqual(missing.reason, 'not-found');
+    assert.strictEqual(missing.text, 'Broken Link');
+    assert(missing.error, 'Should include the error');
+  });
+
+  it('should write JUnit XML with a failing test case per broken link', async () => {
+    const result = await checkMockBuild();
+    const report = formatReport(result, 'junit', mockBuildDir);
+
+    assert(report.startsWith('<?xml'), 'Should be an XML document');
+    assert(report.includes(`failures="${result.brokenLinks.length}"`), 'Should count every broken link as a failure');
+    assert(report.includes('<testcase name="/missing-page" classname="index.html">'), 'Should name test cases after hrefs');
+    assert(report.includes('type="not-found"'), 'Should carry the reason as the failure type');
+    assert(/<testsuite name="about\/index.html" tests="1" failures="0">/.test(report), 'Files without broken links should pass');
+  });
+
+  it('should escape XML special characters', () => {
+    const result = {
+      totalLinks: 1,
+      checkedFiles: ['index.html'],
+      skippedFiles: [],
+      brokenLinks: [{
+        href: '/search?a=1&b=<2>',
+        text: 'Say "hi"',
+        type: 'internal',
+        reason: 'not-found',
+        error: 'File not found: search',
+        sourceFile: join(mockBuildDir, 'index.html')
+      }]
+    };
+    const report = formatReport(result, 'junit', mockBuildDir);
+
+    assert(report.includes('/search?a=1&amp;b=&lt;2&gt;'), 'Should escape & < >');
+    assert(report.includes('&quot;hi&quot;'), 'Should escape quotes');
+  });
+
+  it('should write SARIF with a rule per reason and a location per result', async () => {
+    const result = await checkMockBuild();
+    const report = JSON.parse(formatReport(result, 'sarif', mockBuildDir));
+
+    assert.strictEqual(report.version, '2.1.0');
+    const run = report.runs[0];
+    assert.strictEqual(run.tool.driver.name, 'astro-link-validator');
+    assert(run.tool.driver.rules.some(rule => rule.id === 'not-found'), 'Should declare the not-found rule');
+    assert.strictEqual(run.results.length, result.brokenLinks.length);
+
+    const first = run.results[0];
+    assert.deepStrictEqual(first.locations[0].physicalLocation.artifactLocation, { uri: 'index.html', uriBaseId: 'BUILDDIR' });
+    assert(first.properties.href, 'Should carry the href');
+  });
+
+  it('should write a Markdown summary grouped by source file', async () => {
+    const result = await checkMockBuild();
+    const report = formatReport(result, 'markdown', mockBuildDir);
+
+    assert(report.includes('### `index.html`'), 'Should have a heading per file');
+    assert(/\| `\/missing-page` \(line \d+\) \| internal \| not-found \|/.test(report), 'Should list each broken link with its line');
+  });
+
+  it('should include the line and column once they are known', () => {
+    const result = {
+      totalLinks: 1,
+      checkedFiles: ['index.html'],
+      skippedFiles: [],
+      brokenLinks: [{
+        href: '/a|b', text: 'A', type: 'internal', reason: 'not-found', error: 'File not found: a|b',
+        sourceFile: join(mockBuildDir, 'index.html'), line: 12, column: 5
+      }]
+    };
+
+    const json = JSON.parse(formatReport(result, 'json', mockBuildDir));
+    assert.strictEqual(json.brokenLinks[0].line, 12);
+    assert.strictEqual(json.brokenLinks[0].column, 5);
+
+    const sarif = JSON.parse(formatReport(result, 'sarif', mockBuildDir));
+    assert.deepStrictEqual(sarif.runs[0].results[0].locations[0].physicalLocation.region, { startLine: 12, startColumn: 5 });
+
+    // Findings on pages traced to a project file are located there, with the built page as related
+    result.brokenLinks[0].originFile = 'src/pages/index.astro';
+    const traced = JSON.parse(formatReport(result, 'sarif', mockBuildDir)).runs[0].results[0];
+    assert.deepStrictEqual(traced.locations[0].physicalLocation, { artifactLocation: { uri: 'src/pages/index.astro', uriBaseId: 'PROJECTROOT' } });
+    assert.deepStrictEqual(traced.relatedLocations[0].physicalLocation, {
+      artifactLocation: { uri: 'index.html', uriBaseId: 'BUILDDIR' },
+      region: { startLine: 12, startColumn: 5 }
+    });
+
+    const markdown = formatReport(result, 'markdown', mockBuildDir);
+    assert(markdown.includes('`/a\\|b` (line 12)'), 'Should escape pipes and show the line');
+  });
+
+  it('should write every configured report from the integration', async () => {
+    const outputDir = join(__dirname, 'fixtures/report-output');
+    const integration = linkValidator({
+      failOnBrokenLinks: false,
+      report: [
+        { format: 'json', outputFile: join(outputDir, 'links.json') },
+        { format: 'markdown', outputFile: join(outputDir, 'nested/links.md') }
+      ]
+    });
+    const logger = { info() {}, warn() {}, error() {} };
+
+    const originalLog = console.log;
+    console.log = () => {};
+
+    try {
+      await integration.hooks['astro:build:done']({
+        dir: pathToFileURL(join(mockBuildDir, '/')),
+        logger
+      });
+
+      const json = JSON.parse(await fs.readFile(join(outputDir, 'links.json'), 'utf-8'));
+      assert(json.brokenLinks.length > 0, 'JSON report should list the broken links');
+
+      const markdown = await fs.readFile(join(outputDir, 'nested/links.md'), 'utf-8');
+      assert(markdown.includes('Link Validation'), 'Markdown report should be written into a new directory');
+    } finally {
+      console.log = originalLog;
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should resolve relative output paths from the working directory', async () => {
+    const result = await checkMockBuild();
+    const outputFile = join('test/fixtures/report-relative', 'links.json');
+
+    try {
+      const [written] = await writeReports(result, mockBuildDir, { format: 'json', outputFile });
+      assert.strictEqual(written, join(process.cwd(), outputFile));
+    } finally {
+      await fs.rm(join(process.cwd(), 'test/fixtures/report-relative'), { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { formatReport } from '../dist/reporters.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/self-links-build');
+
+describe('Absolute Links to the Site Itself', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'blog/post'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'blog/post/index.html'), '<html><body><h2 id="intro">Intro</h2></body></html>');
+    await fs.writeFile(join(buildDir, '_redirects'), '/old-post /blog/post/ 301\n');
+    await fs.writeFile(join(buildDir, 'index.html'), `
+      <html><head>
+        <link rel="canonical" href="https://example.com/">
+        <meta property="og:image" content="https://example.com/og.png">
+      </head>
+      <body>
+        <a href="https://example.com/blog/post/">Post</a>
+        <a href="https://example.com/blog/post/#intro">Post intro</a>
+        <a href="https://example.com/old-post">Redirected</a>
+        <a href="https://example.com/deleted">Deleted</a>
+        <a href="https://example.com/blog/post/#outro">Missing anchor</a>
+        <a href="//example.com/also-deleted">Protocol-relative</a>
+        <a href="https://other.example.org/page">Elsewhere</a>
+      </body></html>
+    `);
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  const check = (options = {}, projectConfig = { site: 'https://example.com' }) =>
+    checkLinks(buildDir, { redirectsFile: '_redirects', ...options }, projectConfig);
+
+  it('should check links to the site origin against the build', async () => {
+    const result = await check();
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => [link.href, link.reason]), [
+      ['https://example.com/deleted', 'not-found'],
+      ['https://example.com/blog/post/#outro', 'missing-anchor'],
+      ['//example.com/also-deleted', 'not-found'],
+      ['https://example.com/og.png', 'not-found']
+    ]);
+  });
+
+  it('should leave links to other origins as external', async () => {
+    const result = await check({ siteOrigins: [] });
+
+    assert.strictEqual(result.brokenLinks.length, 0, 'Without site origins every absolute URL is external and skipped');
+  });
+
+  it('should accept explicit site origins', async () => {
+    const result = await check({ siteOrigins: ['https://other.example.org'] }, {});
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => link.href), ['https://other.example.org/page']);
+  });
+
+  it('should strip the site base from absolute links', async () => {
+    const result = await check({}, { site: 'https://example.com', base: '/docs' });
+
+    assert(result.brokenLinks.some(link => link.href === 'https://example.com/blog/post/' && /outside the site base/.test(link.error)));
+  });
+
+  it('should optionally warn about absolute links in page content', async () => {
+    const quiet = await check();
+    assert.deepStrictEqual(quiet.warnings, []);
+
+    const result = await check({ warnOnAbsoluteSelfLinks: true });
+    const warned = result.warnings.map(link => link.href);
+
+    assert(warned.includes('https://example.com/blog/post/'));
+    assert(!warned.includes('https://example.com/'), 'Canonical URLs must stay absolute');
+    assert(!warned.includes('https://example.com/og.png'), 'Meta tag URLs must stay absolute');
+    assert.strictEqual(result.warnings[0].reason, 'absolute-self-link');
+    assert.match(result.warnings[0].error, /use the relative link \/blog\/post\/ instead/);
+    assert.strictEqual(result.brokenLinks.length, 4, 'Warnings are separate from broken links');
+
+    const report = JSON.parse(formatReport(result, 'json', buildDir));
+    assert.strictEqual(report.summary.warnings, result.warnings.length);
+
+    const sarif = JSON.parse(formatReport(result, 'sarif', buildDir));
+    assert(sarif.runs[0].results.some(entry => entry.ruleId === 'absolute-self-link' && entry.level === 'warning'));
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import linkValidator from '../dist/index.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/server-routes-build');
+
+const page = (...hrefs) => `<html><body>${hrefs.map(href => `<a href="${href}">Link</a>`).join('\n')}</body></html>`;
+
+// Routes as Astro reports them, with the regexes it generates for trailingSlash: 'ignore'
+const serverRoutes = [
+  { pattern: '/products/[id]', patternRegex: /^\/products\/([^/]+?)\/?$/, params: ['id'] },
+  { pattern: '/docs/[...slug]', patternRegex: /^\/docs(?:\/(.*?))?\/?$/, params: ['slug'] },
+  { pattern: '/api/search', patternRegex: /^\/api\/search\/?$/, params: [] }
+];
+
+describe('On-Demand Routes', () => {
+  before(async () => {
+    await fs.mkdir(buildDir, { recursive: true });
+    await fs.writeFile(join(buildDir, 'index.html'), page(
+      '/products/42',
+      '/products/7?color=red#reviews',
+      '/docs',
+      '/docs/guides/setup',
+      '/api/search?q=astro',
+      '/products/',
+      '/missing'
+    ));
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  it('should accept links that match a route rendered on demand', async () => {
+    const result = await checkLinks(buildDir, {}, { serverRoutes });
+
+    assert.strictEqual(result.totalLinks, 7);
+    assert.deepStrictEqual(result.brokenLinks.map(link => [link.href, link.reason]), [
+      ['/products/', 'not-found'],
+      ['/missing', 'not-found']
+    ]);
+  });
+
+  it('should report links to missing pages without the route data', async () => {
+    const result = await checkLinks(buildDir, {});
+
+    assert.strictEqual(result.brokenLinks.length, 7);
+  });
+
+  it('should apply the trailing slash policy to matched routes', async () => {
+    const result = await checkLinks(buildDir, {}, { serverRoutes, trailingSlash: 'always' });
+
+    assert.deepStrictEqual(result.brokenLinks.filter(link => link.reason === 'trailing-slash').map(link => link.href), [
+      '/products/42',
+      '/products/7?color=red#reviews',
+      '/docs',
+      '/docs/guides/setup',
+      '/api/search?q=astro'
+    ]);
+  });
+
+  it('should only accept the params listed in serverRoutePaths', async () => {
+    const warnings = [];
+    const originalWarn = console.warn;
+    console.warn = (message) => warnings.push(message);
+
+    let result;
+    try {
+      result = await checkLinks(buildDir, {
+        serverRoutePaths: {
+          '/products/[id]': async () => [{ params: { id: 42 } }],
+          '/docs/[...slug]': () => [{ params: { slug: undefined } }, { params: { slug: 'guides/install' } }],
+          '/blog/[slug]': () => []
+        }
+      }, { serverRoutes });
+    } finally {
+      console.warn = originalWarn;
+    }
+
+    assert.deepStrictEqual(result.brokenLinks.map(link => [link.href, link.error]), [
+      ['/products/7?color=red#reviews', 'Route /products/[id] has no page for id=7 in serverRoutePaths'],
+      ['/docs/guides/setup', 'Route /docs/[...slug] has no page for slug=guides/setup in serverRoutePaths'],
+      ['/products/', 'File not found: products'],
+      ['/missing', 'File not found: missing']
+    ]);
+    assert.deepStrictEqual(warnings, ['Warning: serverRoutePaths lists paths for /blog/[slug], which is not an on-demand route']);
+  });
+
+  it('should take on-demand routes from the routes Astro resolves', async () => {
+    const integration = linkValidator({ failOnBrokenLinks: false });
+    const logger = { info() {}, warn() {}, error() {} };
+    const errors = [];
+    logger.error = (message) => errors.push(message);
+
+    integration.hooks['astro:config:done']({ config: { root: pathToFileURL(join(buildDir, '/')) }, logger });
+    integration.hooks['astro:routes:resolved']({
+      routes: [
+        ...serverRoutes.map(route => ({ ...route, type: 'page', entrypoint: 'src/pages/route.astro', isPrerendered: false })),
+        { pattern: '/[page]', patternRegex: /^\/([^/]+?)\/?$/, params: ['page'], type: 'page', entrypoint: 'src/pages/[page].astro', isPrerendered: true }
+      ],
+      logger
+    });
+
+    const originalLog = console.log;
+    const output = [];
+    console.log = (...args) => output.push(args.join(' '));
+
+    try {
+      await integration.hooks['astro:build:done']({ dir: pathToFileURL(join(buildDir, '/')), assets: new Map(), logger });
+    } finally {
+      console.log = originalLog;
+    }
+
+    // The prerendered route has files for its pages, so /missing is still broken
+    assert(output.some(line => line.includes('/missing')));
+    assert(!output.some(line => line.includes('/products/42')));
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks, countIssueErrors } from '../dist/link-checker.js';
+import linkValidator from '../dist/index.js';
+import { formatReport } from '../dist/reporters.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/severity-rules-build');
+
+describe('Severity Rules', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'blog'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'about.html'), '<html><body><h2 id="team">Team</h2></body></html>');
+    await fs.writeFile(join(buildDir, 'index.html'), `
+      <html><body>
+        <a href="/missing-page">Missing page</a>
+        <a href="/about#history">Missing anchor</a>
+        <img src="/legacy/logo.png" alt="Old logo">
+        <img src="/images/hero.png" alt="Hero">
+      </body></html>
+    `);
+    await fs.writeFile(join(buildDir, 'blog/post.html'), '<html><body><img src="/legacy/chart.png" alt="Chart"></body></html>');
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  const findings = (links) => links.map(link => [link.href, link.severity]);
+
+  it('should treat every broken link as an error by default', async () => {
+    const result = await checkLinks(buildDir);
+
+    assert.strictEqual(result.brokenLinks.length, 5);
+    assert(result.brokenLinks.every(link => link.severity === 'error'));
+    assert.deepStrictEqual(result.warnings, []);
+  });
+
+  it('should turn findings into warnings or drop them', async () => {
+    const result = await checkLinks(buildDir, {
+      rules: [
+        { reason: 'missing-anchor', severity: 'warn' },
+        { type: 'asset', reason: 'not-found', href: '/legacy/*', severity: 'off' }
+      ]
+    });
+
+    assert.deepStrictEqual(findings(result.brokenLinks), [
+      ['/missing-page', 'error'],
+      ['/images/hero.png', 'error']
+    ]);
+    assert.deepStrictEqual(findings(result.warnings), [['/about#history', 'warn']]);
+    assert.strictEqual(result.totalLinks, 5, 'Links turned off are still counted');
+  });
+
+  it('should match the source file and let later rules win', async () => {
+    const result = await checkLinks(buildDir, {
+      rules: [
+        { href: '/legacy/*', severity: 'off' },
+        { href: '/legacy/*', sourceFile: 'blog/**', severity: 'warn' },
+        { type: ['internal', 'asset'], severity: 'warn' },
+        { href: '/missing-page', severity: 'error' }
+      ]
+    });
+
+    assert.deepStrictEqual(findings(result.brokenLinks), [['/missing-page', 'error']]);
+    assert.deepStrictEqual(findings(result.warnings).sort(), [
+      ['/about#history', 'warn'],
+      ['/images/hero.png', 'warn'],
+      ['/legacy/chart.png', 'warn'],
+      ['/legacy/logo.png', 'warn']
+    ]);
+  });
+
+  it('should allow rules to turn warnings into errors', async () => {
+    const selfLinkDir = join(__dirname, 'fixtures/severity-self-link-build');
+
+    try {
+      await fs.mkdir(selfLinkDir, { recursive: true });
+      await fs.writeFile(join(selfLinkDir, 'index.html'), '<html><body><a href="https://example.com/">Home</a></body></html>');
+
+      const result = await checkLinks(selfLinkDir, {
+        warnOnAbsoluteSelfLinks: true,
+        rules: [{ reason: 'absolute-self-link', severity: 'error' }]
+      }, { site: 'https://example.com' });
+
+      assert.deepStrictEqual(result.brokenLinks.map(link => [link.reason, link.severity]), [['absolute-self-link', 'error']]);
+      assert.deepStrictEqual(result.warnings, []);
+    } finally {
+      await fs.rm(selfLinkDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should include the severity in JSON reports', async () => {
+    const result = await checkLinks(buildDir, { rules: [{ reason: 'missing-anchor', severity: 'warn' }] });
+    const report = JSON.parse(formatReport(result, 'json', buildDir));
+
+    assert(report.brokenLinks.every(entry => entry.severity === 'error'));
+    assert.deepStrictEqual(report.warnings.map(entry => entry.severity), ['warn']);
+  });
+
+  it('should apply rules to orphan pages and fail the build on errors', async () => {
+    const rules = [
+      { type: ['internal', 'asset'], severity: 'off' },
+      { reason: 'orphan-page', severity: 'error' },
+      { href: '/*', severity: 'warn' }
+    ];
+    const result = await checkLinks(buildDir, { orphanPages: true, rules });
+
+    // Rules on link types and hrefs don't match orphan pages
+    assert.deepStrictEqual(result.brokenLinks, []);
+    assert.deepStrictEqual(result.orphanPages, [{ page: 'blog/post.html', reason: 'orphan-page', severity: 'error' }]);
+    assert.strictEqual(countIssueErrors(result), 1);
+
+    const integration = linkValidator({ orphanPages: true, rules, devToolbar: false });
+    const logger = { info() {}, warn() {}, error() {} };
+    integration.hooks['astro:config:done']({ config: { root: pathToFileURL(join(buildDir, '/')) }, logger });
+
+    await assert.rejects(
+      integration.hooks['astro:build:done']({ dir: pathToFileURL(join(buildDir, '/')), assets: new Map(), logger }),
+      /Build failed: Found 1 issues marked as errors/
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { checkLinks } from '../dist/link-checker.js';
+import { formatReport } from '../dist/reporters.js';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const buildDir = join(__dirname, 'fixtures/sitemap-build');
+
+const page = (...hrefs) => `<html><body>${hrefs.map(href => `<a href="${href}">Link</a>`).join('')}</body></html>`;
+
+const urlset = (...urls) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map(url => `  <url><loc>${url}</loc></url>`).join('\n')}
+</urlset>`;
+
+describe('Sitemap Validation', () => {
+  before(async () => {
+    await fs.mkdir(join(buildDir, 'about'), { recursive: true });
+    await fs.mkdir(join(buildDir, 'blog'), { recursive: true });
+    await fs.writeFile(join(buildDir, 'index.html'), page('/about/', '/blog/post', '/blog/unlisted'));
+    await fs.writeFile(join(buildDir, 'about/index.html'), page('/'));
+    await fs.writeFile(join(buildDir, 'blog/post.html'), page('/'));
+    await fs.writeFile(join(buildDir, 'blog/unlisted.html'), page('/'));
+    await fs.writeFile(join(buildDir, '_redirects'), '/old-post /blog/post 301\n');
+    await fs.writeFile(join(buildDir, 'sitemap-index.xml'), `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/sitemap-0.xml</loc></sitemap>
+</sitemapindex>`);
+    await fs.writeFile(join(buildDir, 'sitemap-0.xml'), urlset(
+      'https://example.com/',
+      'https://example.com/about/',
+      'https://example.com/blog/post',
+      'https://example.com/old-post',
+      'https://example.com/deleted/',
+      'https://staging.example.com/about/'
+    ));
+  });
+
+  after(async () => {
+    await fs.rm(buildDir, { recursive: true, force: true });
+  });
+
+  const check = (options = {}, projectConfig = { site: 'https://example.com' }) =>
+    checkLinks(buildDir, { checkSitemap: true, redirectsFile: '_redirects', ...options }, projectConfig);
+
+  it('should report sitemap URLs that do not resolve to a page or redirect', async () => {
+    const result = await check();
+    const notFound = result.sitemapIssues.filter(issue => issue.reason === 'not-found');
+
+    assert.deepStrictEqual(notFound.map(issue => [issue.url, issue.sitemapFile]), [
+      ['https://example.com/deleted/', 'sitemap-0.xml']
+    ], 'Redirected URLs count as resolved');
+  });
+
+  it('should report sitemap URLs on another host', async () => {
+    const result = await check();
+    const wrongHost = result.sitemapIssues.filter(issue => issue.reason === 'wrong-host');
+
+    assert.deepStrictEqual(wrongHost.map(issue => issue.url), ['https://staging.example.com/about/']);
+    assert.match(wrongHost[0].error, /staging\.example\.com/);
+  });
+
+  it('should skip the host check when no site is configured', async () => {
+    const result = await check({}, {});
+
+    assert(!result.sitemapIssues.some(issue => issue.reason === 'wrong-host'));
+  });
+
+  it('should report linked pages missing from the sitemap', async () => {
+    const result = await check();
+    const missing = result.sitemapIssues.filter(issue => issue.reason === 'missing-from-sitemap');
+
+    assert.deepStrictEqual(missing.map(issue => [issue.page, issue.url]), [['blog/unlisted.html', '/blog/unlisted']]);
+  });
+
+  it('should keep sitemap issues separate from broken links', async () => {
+    const result = await check();
+
+    assert.strictEqual(result.brokenLinks.length, 0);
+    assert.strictEqual(result.sitemapIssues.length, 3);
+
+    const report = JSON.parse(formatReport(result, 'json', buildDir));
+    assert.strictEqual(report.sitemapIssues.length, 3, 'JSON reports include sitemap issues');
+  });
+
+  it('should resolve sitemap URLs under the site base', async () => {
+    const baseDir = join(__dirname, 'fixtures/sitemap-base-build');
+
+    try {
+      await fs.mkdir(baseDir, { recursive: true });
+      await fs.writeFile(join(baseDir, 'index.html'), page('/docs/guide'));
+      await fs.writeFile(join(baseDir, 'guide.html'), page('/docs/'));
+      await fs.writeFile(join(baseDir, 'sitemap.xml'), urlset('https://example.com/docs/', 'https://example.com/docs/guide', 'https://example.com/docs/gone'));
+
+      const result = await checkLinks(baseDir, { checkSitemap: true }, { site: 'https://example.com', base: '/docs' });
+
+      assert.deepStrictEqual(result.sitemapIssues.map(issue => [issue.reason, issue.url]), [
+        ['not-found', 'https://example.com/docs/gone']
+      ]);
+    } finally {
+      await fs.rm(baseDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should warn when the build has no sitemap', async () => {
+    const emptyDir = join(__dirname, 'fixtures/sitemap-empty-build');
+    const warnings = [];
+    const originalWarn = console.warn;
+    console.warn = (message) => warnings.push(message);
+
+    try {
+      await fs.mkdir(emptyDir, { recursive: true });
+      await fs.writeFile(join(emptyDir, 'index.html'), page());
+
+      const result = await checkLinks(emptyDir, { checkSitemap: true });
+
+      assert.strictEqual(result.sitemapIssues, undefined);
+      assert(warnings.some(message => message.includes('no sitemap-index.xml or sitemap.xml')));
+    } finally {
+      console.warn = originalWarn;
+      await fs.rm(emptyDir, { recursive: true, force: true });
+    }
+  });
+});
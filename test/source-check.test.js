@@ -0,0 +1,190 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { execFile } from 'node:child_process';
+import { checkSourceLinks } from '../dist/source-check.js';
+import { extractLinksFromMarkdown } from '../dist/markdown-links.js';
+import linkValidator from '../dist/index.js';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, join } from 'node:path';
+import { promises as fs } from 'node:fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const projectRoot = join(__dirname, 'fixtures/source-project');
+const cliPath = join(__dirname, '../dist/cli.js');
+
+const POST = `---
+title: Post
+hero: /not-a-link
+---
+
+# Getting Started
+
+See the [intro](/docs/intro) and the [missing page](/docs/missing "Title").
+![Cover](./images/cover.png) and ![Gone](./images/gone.png)
+
+[![Badge](/badge.svg)](/products/42)
+
+Read [more][guide] or [the feed][feed], and see ![the logo][logo].
+
+\`\`\`js
+const link = '[fake](/in-code)';
+\`\`\`
+
+Inline \`[code](/in-code)\` stays text. Jump to [start](#getting-started) or [typo](#getting-startd).
+
+Visit <https://example.com/> or [mail](mailto:hi@example.com) or [escaped]\\(/not-a-link).
+
+[guide]: /blog/2024/guide
+[feed]: </rss.xml>
+[logo]: ./images/logo.png
+`;
+
+const GUIDE = `import Note from '../../components/Note.astro';
+
+{/* [commented](/gone) */}
+
+<a href="/downloads/">Downloads</a>
+<img src="/favicon.svg" alt="" />
+<img src="relative.png" alt="" />
+
+Setext Heading
+==============
+
+[Back](#setext-heading) and [the intro](/docs/intro/) and [a draft](/_draft)
+`;
+
+const BASE = '[a](/site/docs/intro/) [b](/site/docs/intro) [c](/elsewhere) [d](/site/old)\n';
+
+const files = {
+  'src/pages/index.astro': '',
+  'src/pages/blog/[...slug].astro': '',
+  'src/pages/products/[id].astro': '',
+  'src/pages/docs/intro.md': '# Intro\n\n[Home](/) and [the guide](/blog/guide/)\n',
+  'src/pages/_draft.md': '[Not checked](/nowhere)\n',
+  'src/pages/rss.xml.js': '',
+  'src/content/blog/post.md': POST,
+  'src/content/blog/images/cover.png': '',
+  'src/content/blog/images/logo.png': '',
+  'src/content/docs/guide.mdx': GUIDE,
+  'src/content/docs/base.md': BASE,
+  'public/favicon.svg': '<svg></svg>',
+  'public/downloads/index.html': '<html></html>'
+};
+
+const brokenIn = (result, file) => result.brokenLinks
+  .filter(link => link.sourceFile === join(projectRoot, file))
+  .map(link => [link.href, link.reason, link.line, link.column]);
+
+describe('Markdown Source Checking', () => {
+  before(async () => {
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(dirname(join(projectRoot, file)), { recursive: true });
+      await fs.writeFile(join(projectRoot, file), content);
+    }
+  });
+
+  after(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should extract links, images and reference definitions at their destination', () => {
+    const links = extractLinksFromMarkdown(POST, 'post.md');
+
+    assert.deepStrictEqual(links.map(link => [link.href, link.type, link.source, link.line, link.column]), [
+      ['/docs/intro', 'internal', '[text](href)', 8, 17],
+      ['/docs/missing', 'internal', '[text](href)', 8, 53],
+      ['./images/cover.png', 'asset', '![alt](src)', 9, 10],
+      ['./images/gone.png', 'asset', '![alt](src)', 9, 42],
+      ['/badge.svg', 'asset', '![alt](src)', 11, 11],
+      ['/products/42', 'internal', '[text](href)', 11, 24],
+      ['#getting-started', 'anchor', '[text](href)', 19, 55],
+      ['#getting-startd', 'anchor', '[text](href)', 19, 83],
+      ['https://example.com/', 'external', '<href>', 21, 8],
+      ['/blog/2024/guide', 'internal', '[label]: href', 23, 10],
+      ['/rss.xml', 'internal', '[label]: href', 24, 10],
+      ['./images/logo.png', 'asset', '[label]: href', 25, 9]
+    ]);
+    assert.strictEqual(links[5].text, '![Badge](/badge.svg)');
+  });
+
+  it('should report broken links at their line and column in the source', async () => {
+    const result = await checkSourceLinks(projectRoot);
+
+    assert.deepStrictEqual(result.checkedFiles, [
+      'src/content/blog/post.md',
+      'src/content/docs/base.md',
+      'src/content/docs/guide.mdx',
+      'src/pages/docs/intro.md'
+    ]);
+    assert.deepStrictEqual(brokenIn(result, 'src/content/blog/post.md'), [
+      ['/docs/missing', 'not-found', 8, 53],
+      ['./images/gone.png', 'not-found', 9, 42],
+      ['/badge.svg', 'not-found', 11, 11],
+      ['#getting-startd', 'missing-anchor', 19, 83]
+    ]);
+    assert.deepStrictEqual(brokenIn(result, 'src/content/docs/guide.mdx'), [
+      ['/_draft', 'not-found', 12, 69]
+    ]);
+    assert.deepStrictEqual(brokenIn(result, 'src/pages/docs/intro.md'), []);
+
+    const [missing, gone, , anchor] = result.brokenLinks;
+    assert.strictEqual(missing.error, 'No page or public file for /docs/missing');
+    assert.strictEqual(gone.error, 'File not found: src/content/blog/images/gone.png');
+    assert.deepStrictEqual(anchor.suggestions, ['getting-started']);
+  });
+
+  it('should apply the base, trailing slash and redirects of the project', async () => {
+    const result = await checkSourceLinks(projectRoot, {}, {
+      base: '/site',
+      trailingSlash: 'always',
+      redirects: { '/old': '/docs/intro' }
+    });
+
+    assert.deepStrictEqual(brokenIn(result, 'src/content/docs/base.md').map(([href, reason]) => [href, reason]), [
+      ['/site/docs/intro', 'trailing-slash'],
+      ['/elsewhere', 'not-found']
+    ]);
+  });
+
+  it('should check sources from the command line', async () => {
+    const { code, stdout } = await new Promise((resolve) => {
+      execFile(process.execPath, [cliPath, 'check-sources', projectRoot, '--format', 'json', '--exclude', '/badge.svg'], (error, stdout) => {
+        resolve({ code: error ? error.code : 0, stdout });
+      });
+    });
+
+    assert.strictEqual(code, 1);
+    const report = JSON.parse(stdout);
+    assert.strictEqual(report.brokenLinks[0].sourceFile, 'src/content/blog/post.md');
+    assert(!report.brokenLinks.some(link => link.href === '/badge.svg'));
+  });
+
+  it('should fail the build before it starts when asked to check sources', async () => {
+    const integration = linkValidator({ checkSources: true, devToolbar: false });
+    const logger = { info() {}, warn() {}, error() {} };
+    const config = {
+      root: pathToFileURL(join(projectRoot, '/')),
+      srcDir: pathToFileURL(join(projectRoot, 'src/')),
+      publicDir: pathToFileURL(join(projectRoot, 'public/')),
+      base: '/',
+      trailingSlash: 'ignore',
+      redirects: {}
+    };
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      await assert.rejects(
+        integration.hooks['astro:config:setup']({ command: 'build', config, logger }),
+        /Found 9 broken links in Markdown sources/
+      );
+
+      // Only builds are checked
+      await integration.hooks['astro:config:setup']({ command: 'preview', config, logger });
+    } finally {
+      console.log = originalLog;
+    }
+  });
+});